@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { cancelVideoBatch } from "@/lib/batch-queue"
+
+/**
+ * Stop submitting the remaining items of a batch. Videos that are already
+ * generating keep going and can be cancelled one by one.
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[BATCHES-API] 🚫 Cancelling batch: ${id}`)
+
+    const cancelled = await cancelVideoBatch(id)
+    if (!cancelled) {
+      return NextResponse.json({ error: "Only running batches can be cancelled" }, { status: 400 })
+    }
+
+    console.log(`[BATCHES-API] ✅ Batch cancelled: ${id}`)
+    return NextResponse.json({ success: true, status: "cancelled" })
+  } catch (error) {
+    console.error("[BATCHES-API] ❌ Unexpected error cancelling batch:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { fetchVideoBatch, toVideoBatchDetails, withBatchPlaybackUrls } from "@/lib/batch-queue"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[BATCHES-API] 📊 Fetching batch: ${id}`)
+
+    const batch = await fetchVideoBatch(id)
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 })
+    }
+
+    const [batchDetails] = await withBatchPlaybackUrls([toVideoBatchDetails(batch)])
+    return NextResponse.json({ batch: batchDetails })
+  } catch (error) {
+    console.error("[BATCHES-API] ❌ Error fetching batch:", error)
+
+    if (error instanceof Error) {
+      if (error.name === 'DatabaseTimeoutError') {
+        return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+      }
+      if (error.name === 'DatabaseConnectionError') {
+        return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+      }
+    }
+
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
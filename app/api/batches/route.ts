@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { BATCH_LIMITS, parseBatchInput, type BatchFormat } from "@/lib/batches"
+import { createVideoBatch, fetchVideoBatches, toVideoBatchDetails, withBatchPlaybackUrls } from "@/lib/batch-queue"
+import { advanceVideoBatches } from "@/lib/batch-worker"
+
+const databaseErrorResponse = (error: unknown) => {
+  if (error instanceof Error) {
+    if (error.name === 'DatabaseTimeoutError') {
+      return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+    }
+    if (error.name === 'DatabaseConnectionError') {
+      return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+    }
+  }
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+export async function GET() {
+  try {
+    console.log("[BATCHES-API] 📋 Fetching batches")
+
+    const batches = await fetchVideoBatches()
+
+    console.log(`[BATCHES-API] ✅ Successfully fetched ${batches.length} batches`)
+    return NextResponse.json({ batches: await withBatchPlaybackUrls(batches.map(toVideoBatchDetails)) })
+  } catch (error) {
+    console.error("[BATCHES-API] ❌ Error fetching batches:", error)
+    return databaseErrorResponse(error)
+  }
+}
+
+/**
+ * Create a batch from a CSV or JSON prompt list. The whole batch is rejected
+ * when any row is invalid, with the errors of every row.
+ */
+export async function POST(request: Request) {
+  try {
+    console.log("[BATCHES-API] 🚀 Starting batch creation request")
+
+    const body = await request.json()
+    const format: BatchFormat | null = body.format === "csv" || body.format === "json" ? body.format : null
+    const name = typeof body.name === "string" && body.name.trim() ? body.name.trim().slice(0, 200) : null
+    const maxConcurrency = Number(body.maxConcurrency ?? BATCH_LIMITS.defaultConcurrency)
+
+    if (!format || typeof body.content !== "string") {
+      console.log("[BATCHES-API] ❌ Missing file content or format")
+      return NextResponse.json({ error: "File content and format (csv or json) are required" }, { status: 400 })
+    }
+
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1 || maxConcurrency > BATCH_LIMITS.maxConcurrency) {
+      console.log("[BATCHES-API] ❌ Invalid concurrency:", maxConcurrency)
+      return NextResponse.json({ error: `Concurrency must be between 1 and ${BATCH_LIMITS.maxConcurrency}` }, { status: 400 })
+    }
+
+    const { items, errors } = parseBatchInput(body.content, format)
+    if (errors.length > 0) {
+      console.log(`[BATCHES-API] ❌ Batch has ${errors.length} invalid row(s)`)
+      return NextResponse.json({ error: "The batch contains invalid rows", rowErrors: errors }, { status: 400 })
+    }
+
+    const batch = await createVideoBatch({
+      name: name ?? `Batch of ${items.length} prompts`,
+      maxConcurrency,
+      items,
+    })
+
+    console.log("[BATCHES-API] ✅ Batch created:", { batchId: batch.id, items: items.length, maxConcurrency })
+
+    // Submit the first items right away instead of waiting for the next worker run
+    try {
+      await advanceVideoBatches()
+    } catch (advanceError) {
+      console.warn("[BATCHES-API] ⚠️ Batch will be started by the next worker run:", advanceError)
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error("[BATCHES-API] ❌ Unexpected error creating batch:", error)
+    return databaseErrorResponse(error)
+  }
+}
@@ -0,0 +1,93 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { getCurrentProvider } from "@/lib/provider-config"
+import { getVideoProvider } from "@/lib/providers"
+import { getRequestUserId, updateVideosForProviderJob } from "@/lib/database-utils"
+import { cancelVideoJobsForProviderJob } from "@/lib/job-queue"
+import { publishVideoEvent } from "@/lib/video-events"
+
+export async function POST(request: Request) {
+  try {
+    console.log("[CANCEL-VIDEO] 🚫 Starting video cancel request")
+
+    const { videoId } = await request.json()
+
+    if (!videoId) {
+      console.log("[CANCEL-VIDEO] ❌ No video ID provided")
+      return NextResponse.json({ error: "Video ID is required" }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const userId = await getRequestUserId(supabase)
+    let videoQuery = supabase
+      .from("videos")
+      .select("id, video_id, status")
+      .eq("id", videoId)
+    videoQuery = userId ? videoQuery.eq("user_id", userId) : videoQuery.is("user_id", null)
+
+    const { data: videoRecord, error: fetchError } = await videoQuery.single()
+
+    if (fetchError || !videoRecord) {
+      console.error("[CANCEL-VIDEO] ❌ Video not found:", fetchError)
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    if (videoRecord.status !== "in_progress") {
+      console.log("[CANCEL-VIDEO] ⚠️ Video is not in progress status:", videoRecord.status)
+      return NextResponse.json({
+        error: "Only videos in progress can be cancelled",
+        currentStatus: videoRecord.status
+      }, { status: 400 })
+    }
+
+    // Stop the background worker first so it cannot complete the video meanwhile.
+    // Variants generated by the same provider job are cancelled together.
+    const cancelledJobs = await cancelVideoJobsForProviderJob(videoRecord.video_id)
+    console.log(`[CANCEL-VIDEO] ⏹️ Cancelled ${cancelledJobs.length} queued job(s) for provider job: ${videoRecord.video_id}`)
+
+    // Best effort: the video is cancelled locally even if the provider refuses
+    const provider = getVideoProvider(cancelledJobs[0]?.provider ?? getCurrentProvider())
+    let providerCancelled = false
+    if (provider.capabilities.cancel && videoRecord.video_id) {
+      try {
+        console.log(`[CANCEL-VIDEO] 🌐 Cancelling ${provider.name.toUpperCase()} job:`, videoRecord.video_id)
+        await provider.cancel(videoRecord.video_id)
+        providerCancelled = true
+      } catch (providerError) {
+        console.warn(`[CANCEL-VIDEO] ⚠️ ${provider.name.toUpperCase()} job could not be cancelled:`, providerError)
+      }
+    }
+
+    const cancelledVideos = await updateVideosForProviderJob(videoRecord.video_id, { status: "cancelled", progress: null })
+    cancelledVideos.forEach((video) => publishVideoEvent({
+      type: "cancelled",
+      recordId: video.id,
+      status: "cancelled",
+      progress: null,
+      providerStatus: null,
+      videoUrl: null,
+      videoUrlExpiresAt: null,
+      errorMessage: null,
+      updatedAt: new Date().toISOString(),
+    }))
+
+    console.log("[CANCEL-VIDEO] ✅ Video cancelled:", {
+      recordId: videoRecord.id,
+      cancelledVideos: cancelledVideos.length,
+      providerCancelled
+    })
+
+    return NextResponse.json({
+      success: true,
+      status: "cancelled",
+      cancelledVideoIds: cancelledVideos.map((video) => video.id),
+      providerCancelled,
+      message: providerCancelled
+        ? "Video generation cancelled"
+        : "Video generation stopped locally; the provider job could not be cancelled"
+    })
+  } catch (error) {
+    console.error("[CANCEL-VIDEO] ❌ Unexpected error cancelling video:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,5 +1,8 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { getRequestUserId } from "@/lib/database-utils"
+import { removeUnusedReference } from "@/lib/references"
+import { deleteVideoFromStorage } from "@/lib/storage-utils"
 
 export async function DELETE(request: Request) {
   try {
@@ -14,13 +17,16 @@ export async function DELETE(request: Request) {
     console.log(`[DELETE-VIDEO] 🗑️ Deleting video: ${videoId}`)
 
     const supabase = await createClient()
+    const userId = await getRequestUserId(supabase)
     
-    // First check if the video exists
-    const { data: existingVideo, error: fetchError } = await supabase
+    // First check if the video exists and belongs to the current user
+    let videoQuery = supabase
       .from("videos")
-      .select("id, prompt, status")
+      .select("id, prompt, status, video_url, storage_path, thumbnail_path, preview_path, input_reference_id")
       .eq("id", videoId)
-      .single()
+    videoQuery = userId ? videoQuery.eq("user_id", userId) : videoQuery.is("user_id", null)
+
+    const { data: existingVideo, error: fetchError } = await videoQuery.single()
 
     if (fetchError || !existingVideo) {
       console.error(`[DELETE-VIDEO] ❌ Video not found:`, fetchError)
@@ -34,16 +40,34 @@ export async function DELETE(request: Request) {
     })
 
     // Delete the video
-    const { error: deleteError } = await supabase
+    let deleteQuery = supabase
       .from("videos")
       .delete()
       .eq("id", videoId)
+    deleteQuery = userId ? deleteQuery.eq("user_id", userId) : deleteQuery.is("user_id", null)
+
+    const { error: deleteError } = await deleteQuery
 
     if (deleteError) {
       console.error(`[DELETE-VIDEO] ❌ Failed to delete video:`, deleteError)
       return NextResponse.json({ error: "Failed to delete video" }, { status: 500 })
     }
 
+    // The row is gone either way; files left behind show up in the orphan scan (/api/storage/orphans)
+    try {
+      await deleteVideoFromStorage(existingVideo)
+    } catch (storageError) {
+      console.error(`[DELETE-VIDEO] ⚠️ Failed to delete video file:`, storageError)
+    }
+
+    if (existingVideo.input_reference_id) {
+      try {
+        await removeUnusedReference(existingVideo.input_reference_id)
+      } catch (referenceError) {
+        console.error(`[DELETE-VIDEO] ⚠️ Failed to delete unused input reference:`, referenceError)
+      }
+    }
+
     console.log(`[DELETE-VIDEO] ✅ Successfully deleted video: ${videoId}`)
 
     return NextResponse.json({ 
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { fetchExperiment } from "@/lib/database-utils"
+import { withPlaybackUrls } from "@/lib/storage-utils"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[EXPERIMENTS-API] 📊 Fetching experiment: ${id}`)
+
+    const result = await fetchExperiment(id)
+    if (!result) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ ...result, videos: await withPlaybackUrls(result.videos) })
+  } catch (error) {
+    console.error("[EXPERIMENTS-API] ❌ Error fetching experiment:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
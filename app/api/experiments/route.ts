@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server"
+import { cancelUntrackedJob, getVideoProvider, ProviderRequestError } from "@/lib/providers"
+import { deleteExperiment, insertExperiment, insertVideo, updateExperimentRuns } from "@/lib/database-utils"
+import { enqueueVideoJob } from "@/lib/job-queue"
+import { planSweep, type ExperimentRun } from "@/lib/experiments"
+import { formatCost } from "@/lib/generation-options"
+
+/**
+ * Run a parameter sweep: generate one prompt with every combination of the
+ * selected models, durations and sizes, linked as one experiment.
+ * Body: { prompt, models: string[], seconds: string[], sizes: string[] }
+ */
+export async function POST(request: Request) {
+  try {
+    console.log("[EXPERIMENTS-API] 🚀 Starting parameter sweep request")
+
+    const body = await request.json()
+    const prompt = body.prompt
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((item) => typeof item === "string")
+
+    if (!prompt || typeof prompt !== "string") {
+      console.log("[EXPERIMENTS-API] ❌ Invalid prompt provided")
+      return NextResponse.json({ error: "Prompt is required" }, { status: 400 })
+    }
+    if (!isStringList(body.models) || !isStringList(body.seconds) || !isStringList(body.sizes)) {
+      return NextResponse.json({ error: "models, seconds and sizes must be lists" }, { status: 400 })
+    }
+
+    const plan = planSweep({ models: body.models, seconds: body.seconds, sizes: body.sizes })
+    if (plan.error) {
+      console.log("[EXPERIMENTS-API] ❌ Sweep rejected:", plan.error)
+      return NextResponse.json({ error: plan.error }, { status: 400 })
+    }
+
+    console.log("[EXPERIMENTS-API] 📝 Sweep plan:", {
+      runs: plan.runs.length,
+      skipped: plan.skipped.length,
+      estimatedCost: formatCost(plan.estimatedCost)
+    })
+
+    const provider = getVideoProvider()
+    const experiment = await insertExperiment(prompt)
+    const runs: ExperimentRun[] = []
+    const videos = []
+    let firstError: unknown = null
+
+    // A run the provider rejects does not stop the other runs
+    for (const run of plan.runs) {
+      try {
+        console.log(`[EXPERIMENTS-API] 🌐 Sending request to ${provider.name.toUpperCase()} API...`, run)
+        const job = await provider.createJob({ prompt, ...run, variants: 1 })
+
+        const video = await insertVideo({
+          prompt,
+          video_url: "",
+          video_id: job.id,
+          model: run.model,
+          status: "in_progress",
+          error_message: "",
+          creation_type: "standard",
+          experiment_id: experiment.id,
+          seconds: run.seconds,
+          size: run.size,
+          provider: provider.name,
+          request_params: { prompt, ...run, provider: provider.name, variants: 1 },
+        }).catch(async (insertError) => {
+          await cancelUntrackedJob(provider, job.id)
+          throw insertError
+        })
+
+        await enqueueVideoJob({
+          videoRecordId: video.id,
+          provider: provider.name,
+          providerJobId: job.id,
+          jobType: "generate",
+        })
+
+        runs.push({ ...run, video_record_id: video.id })
+        videos.push(video)
+      } catch (runError) {
+        console.error("[EXPERIMENTS-API] ⚠️ Failed to submit sweep run:", { run, error: runError })
+        firstError ??= runError
+        runs.push({ ...run, video_record_id: null, error_message: runError instanceof Error ? runError.message : "Failed to submit" })
+      }
+    }
+
+    if (videos.length === 0) {
+      await deleteExperiment(experiment.id)
+      throw firstError
+    }
+
+    const savedExperiment = await updateExperimentRuns(experiment.id, runs)
+    console.log("[EXPERIMENTS-API] ✅ Experiment created:", { experimentId: experiment.id, submitted: videos.length, runs: runs.length })
+
+    return NextResponse.json({
+      experiment: savedExperiment,
+      videos,
+      ...(videos.length < runs.length ? { warning: `Only ${videos.length} of ${runs.length} runs could be submitted` } : {}),
+    })
+  } catch (error) {
+    console.error("[EXPERIMENTS-API] ❌ Unexpected error running sweep:", error)
+
+    if (error instanceof ProviderRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof Error) {
+      if (error.name === 'DatabaseTimeoutError') {
+        return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+      }
+      if (error.name === 'DatabaseConnectionError') {
+        return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+      }
+    }
+
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
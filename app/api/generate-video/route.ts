@@ -1,10 +1,13 @@
+import { randomUUID } from "crypto"
 import { NextResponse } from "next/server"
-import { getProviderConfig, getCurrentProvider, formatRequestForProvider } from "@/lib/provider-config"
-import { insertVideo, updateVideoStatus } from "@/lib/database-utils"
-import { uploadVideoToStorage } from "@/lib/storage-utils"
+import { cancelUntrackedJob, getVideoProvider, ProviderRequestError, type ProviderJob } from "@/lib/providers"
+import { fetchNextSequencePosition, insertVideo, startVideoSequence } from "@/lib/database-utils"
+import { enqueueVideoJob } from "@/lib/job-queue"
+import { parseVideoSize, type VideoRequestParams } from "@/lib/generation-options"
+import { readImageDimensions } from "@/lib/reference-images"
+import { loadInputReference, storeInputReference } from "@/lib/references"
 
-// Azure endpoint constant
-const AZURE_ENDPOINT = "https://stefa-m74csuwx-eastus2.openai.azure.com/openai/v1"
+const MAX_VARIANTS = 4
 
 export async function POST(request: Request) {
   try {
@@ -16,6 +19,10 @@ export async function POST(request: Request) {
     let seconds = "4"
     let size = "1280x720"
     let inputReference: File | null = null
+    let inputReferenceId: string | null = null
+    // Extensions: the clip whose last frame is the input reference
+    let previousVideoId: string | null = null
+    let variants = 1
 
     if (contentType.includes("multipart/form-data")) {
       // Handle file upload
@@ -26,7 +33,10 @@ export async function POST(request: Request) {
       model = (formData.get("model") as string) || "sora-2"
       seconds = (formData.get("seconds") as string) || "4"
       size = (formData.get("size") as string) || "1280x720"
+      variants = Number(formData.get("variants") || 1)
       inputReference = formData.get("input_reference") as File
+      inputReferenceId = (formData.get("input_reference_id") as string) || null
+      previousVideoId = (formData.get("previous_video_id") as string) || null
       
       if (inputReference) {
         console.log("[VIDEO-GEN] 📎 Input reference file received:", {
@@ -43,13 +53,17 @@ export async function POST(request: Request) {
       model = body.model || "sora-2"
       seconds = body.seconds || "4"
       size = body.size || "1280x720"
+      variants = Number(body.variants || 1)
+      inputReferenceId = body.input_reference_id || null
+      previousVideoId = body.previous_video_id || null
     }
 
     console.log("[VIDEO-GEN] 📝 Request parameters:", {
       prompt: prompt?.substring(0, 100) + (prompt?.length > 100 ? "..." : ""),
       model,
       seconds,
-      size
+      size,
+      variants
     })
 
     if (!prompt || typeof prompt !== "string") {
@@ -57,278 +71,179 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Prompt is required" }, { status: 400 })
     }
 
-    console.log(`[VIDEO-GEN] 🌐 Sending request to ${getCurrentProvider().toUpperCase()} API...`)
-    
-    const providerConfig = getProviderConfig()
-    const requestBody = formatRequestForProvider(prompt, model, seconds, size, inputReference)
-    let headers = { ...providerConfig.headers }
-
-    // Handle Content-Type for different providers and request types
-    if (getCurrentProvider() === "azure") {
-      // Azure always uses JSON
-      headers["Content-Type"] = "application/json"
-    } else {
-      // OpenAI: FormData for file uploads, JSON otherwise
-      if (inputReference) {
-        // Don't set Content-Type for FormData - let fetch set it with boundary
-        delete headers["Content-Type"]
-      } else {
-        headers["Content-Type"] = "application/json"
-      }
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+      console.log("[VIDEO-GEN] ❌ Invalid variant count:", variants)
+      return NextResponse.json({ error: `Variants must be between 1 and ${MAX_VARIANTS}` }, { status: 400 })
     }
 
-    const response = await fetch(providerConfig.generateUrl, {
-      method: "POST",
-      headers,
-      body: getCurrentProvider() === "azure" ? JSON.stringify(requestBody) : (requestBody instanceof FormData ? requestBody : JSON.stringify(requestBody)),
-    })
+    const provider = getVideoProvider()
 
-    console.log(`[VIDEO-GEN] 📡 ${getCurrentProvider().toUpperCase()} API response status:`, response.status)
-
-    if (!response.ok) {
-      const error = await response.json()
-      console.error(`[VIDEO-GEN] ❌ ${getCurrentProvider().toUpperCase()} API error:`, {
-        status: response.status,
-        error: error.error?.message || error.message || "Unknown error"
-      })
-      return NextResponse.json(
-        { error: `Failed to generate video: ${error.error?.message || error.message || "Unknown error"}` },
-        { status: response.status },
-      )
+    if ((inputReference || inputReferenceId) && !provider.capabilities.inputReference) {
+      console.log(`[VIDEO-GEN] ❌ ${provider.name.toUpperCase()} provider does not support input references`)
+      return NextResponse.json({
+        error: `Input references are not supported with ${provider.name} provider`
+      }, { status: 400 })
     }
 
-    const data = await response.json()
-    const jobId = data.id
-
-    console.log(`[VIDEO-GEN] ✅ Video generation job created:`, {
-      jobId,
-      status: data.status || "unknown"
-    })
-
-    if (!jobId) {
-      console.error("[VIDEO-GEN] ❌ No job ID in OpenAI response")
-      return NextResponse.json({ error: "No job ID in response" }, { status: 500 })
+    const sequencePosition = previousVideoId ? await fetchNextSequencePosition(previousVideoId) : null
+    if (previousVideoId && !sequencePosition) {
+      console.log("[VIDEO-GEN] ❌ Video to extend not found:", previousVideoId)
+      return NextResponse.json({ error: "Video to extend not found" }, { status: 404 })
     }
 
-    console.log("[VIDEO-GEN] 💾 Saving video record to database...")
-    const videoRecord = await insertVideo({
-      prompt,
-      video_url: "", // Empty initially
-      video_id: jobId,
-      model: model,
-      status: "in_progress",
-      error_message: "", // Empty initially
-      creation_type: "standard",
-    })
-
-    console.log("[VIDEO-GEN] ✅ Video record saved:", {
-      recordId: videoRecord.id,
-      jobId: videoRecord.video_id
-    })
-
-    // Start background polling (fire and forget)
-    console.log("[VIDEO-GEN] 🔄 Starting background polling for job:", jobId)
-    pollAndUpdateVideo(jobId, videoRecord.id, model)
+    // A previously stored reference is loaded back for the provider
+    let storedReference = null
+    if (!inputReference && inputReferenceId) {
+      const loaded = await loadInputReference(inputReferenceId)
+      if (!loaded) {
+        console.log("[VIDEO-GEN] ❌ Input reference not found:", inputReferenceId)
+        return NextResponse.json({ error: "Input reference not found" }, { status: 404 })
+      }
+      storedReference = loaded.reference
+      inputReference = loaded.file
+    }
 
-    return NextResponse.json({ video: videoRecord })
-  } catch (error) {
-    console.error("[VIDEO-GEN] ❌ Unexpected error generating video:", error)
-    
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.name === 'DatabaseTimeoutError') {
-        return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+    // The browser resizes image references, but the provider rejects any
+    // image that does not match the video size exactly
+    if (inputReference?.type.startsWith("image/")) {
+      const dimensions = readImageDimensions(new Uint8Array(await inputReference.arrayBuffer()))
+      const target = parseVideoSize(size)
+      if (!dimensions) {
+        console.log("[VIDEO-GEN] ❌ Could not read input reference dimensions:", inputReference.type)
+        return NextResponse.json({ error: "Could not read the dimensions of the input reference image" }, { status: 400 })
       }
-      if (error.name === 'DatabaseConnectionError') {
-        return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+      if (target && (dimensions.width !== target.width || dimensions.height !== target.height)) {
+        console.log("[VIDEO-GEN] ❌ Input reference size mismatch:", { dimensions, size })
+        return NextResponse.json({
+          error: `Input reference image is ${dimensions.width}x${dimensions.height} but must be ${size} to match the video size`
+        }, { status: 400 })
       }
     }
-    
-    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
-  }
-}
-
-async function pollAndUpdateVideo(jobId: string, recordId: string, model: string) {
-  try {
-    console.log(`[POLLING] 🔄 Starting polling for video job:`, { jobId, recordId, model, provider: getCurrentProvider() })
-    
-    const providerConfig = getProviderConfig()
-    let completed = false
-    let attempts = 0
-    const maxAttempts = 150
-
-    while (!completed && attempts < maxAttempts) {
-      console.log(`[POLLING] ⏳ Attempt ${attempts + 1}/${maxAttempts} - Waiting 5 seconds before status check...`)
-      await new Promise((resolve) => setTimeout(resolve, 5000))
 
-      console.log(`[POLLING] 📡 Checking status for job: ${jobId}`)
-      const statusResponse = await fetch(providerConfig.statusUrl(jobId), {
-        method: "GET",
-        headers: providerConfig.headers,
-      })
+    // Keep new uploads in storage so the videos link to them and they can be reused
+    if (inputReference && !storedReference) {
+      storedReference = await storeInputReference(inputReference)
+    }
 
-      console.log(`[POLLING] 📊 Status check response: ${statusResponse.status}`)
+    // Stored with every variant so the shot can be reproduced
+    const requestParams: VideoRequestParams = {
+      prompt,
+      model,
+      seconds,
+      size,
+      provider: provider.name,
+      variants,
+      input_reference: inputReference
+        ? { name: inputReference.name, type: inputReference.type, size: inputReference.size, reference_id: storedReference?.id }
+        : null,
+    }
 
-      if (!statusResponse.ok) {
-        console.warn(`[POLLING] ⚠️ Status check failed (attempt ${attempts + 1}):`, {
-          status: statusResponse.status,
-          statusText: statusResponse.statusText
-        })
-        attempts++
-        continue
+    // Providers with native variants return them all from one job; for the
+    // others, every variant is a separate job
+    const nativeVariants = variants > 1 && provider.capabilities.maxVariants >= variants
+    const jobCount = nativeVariants ? 1 : variants
+    const videosPerJob = nativeVariants ? variants : 1
+    const variantGroupId = variants > 1 ? randomUUID() : null
+    const videoRecords = []
+    let variantIndex = 0
+
+    for (let i = 0; i < jobCount; i++) {
+      let job: ProviderJob
+      try {
+        console.log(`[VIDEO-GEN] 🌐 Sending request to ${provider.name.toUpperCase()} API...`, { job: i + 1, of: jobCount })
+        job = await provider.createJob({ prompt, model, seconds, size, inputReference, variants: nativeVariants ? variants : 1 })
+      } catch (jobError) {
+        // Keep the variants that were already submitted
+        if (videoRecords.length === 0) throw jobError
+        console.error(`[VIDEO-GEN] ⚠️ Failed to submit variant ${variantIndex + 1} of ${variants}:`, jobError)
+        break
       }
 
-      const statusData = await statusResponse.json()
-      console.log(`[POLLING] 📋 Current job status:`, {
-        jobId,
-        status: statusData.status,
-        attempt: attempts + 1,
-        progress: statusData.progress || "unknown"
+      console.log(`[VIDEO-GEN] ✅ Video generation job created:`, {
+        jobId: job.id,
+        status: job.providerStatus
       })
 
-      if (statusData.status === "succeeded" || statusData.status === "completed") {
-        console.log(`[POLLING] ✅ Video generation completed for job: ${jobId}`)
-        completed = true
-        break
-      } else if (statusData.status === "failed" || statusData.status === "error") {
-        const errorDetails = statusData.error || statusData.failure_reason || "No error details provided"
-        console.error(`[POLLING] ❌ Video generation failed for job: ${jobId}`, {
-          status: statusData.status,
-          error: errorDetails
-        })
-        
-        // Format error message for storage
-        const errorMessage = typeof errorDetails === 'object' 
-          ? `${errorDetails.code || 'unknown_error'}: ${errorDetails.message || 'Unknown error occurred'}`
-          : String(errorDetails)
-        
-        // Update status to failed with error message
-        console.log(`[POLLING] 💾 Updating database status to 'failed' with error message for record: ${recordId}`)
-        try {
-          await updateVideoStatus(recordId, { 
-            status: "failed",
-            error_message: errorMessage
-          })
-          console.log(`[POLLING] ✅ Successfully updated database status to 'failed' with error: ${errorMessage}`)
-        } catch (updateError) {
-          console.error(`[POLLING] ❌ Failed to update database status to 'failed':`, updateError)
-        }
-        return
+      if (!job.id) {
+        console.error(`[VIDEO-GEN] ❌ No job ID in ${provider.name.toUpperCase()} response`)
+        return NextResponse.json({ error: "No job ID in response" }, { status: 500 })
       }
 
-      attempts++
-    }
-
-    if (!completed) {
-      console.error(`[POLLING] ⏰ Timeout reached after ${maxAttempts} attempts for job: ${jobId}`)
-      
-      // Timeout - mark as failed
-      console.log(`[POLLING] 💾 Updating database status to 'failed' due to timeout for record: ${recordId}`)
+      console.log("[VIDEO-GEN] 💾 Saving video record(s) to database...")
+      const jobRecords = []
       try {
-        await updateVideoStatus(recordId, { status: "failed" })
-        console.log(`[POLLING] ✅ Successfully updated database status to 'failed' after timeout`)
-      } catch (timeoutError) {
-        console.error(`[POLLING] ❌ Failed to update database status after timeout:`, timeoutError)
+        for (let j = 0; j < videosPerJob; j++) {
+          jobRecords.push(await insertVideo({
+            prompt,
+            video_url: "", // Empty initially
+            video_id: job.id,
+            model: model,
+            status: "in_progress",
+            error_message: "", // Empty initially
+            creation_type: "standard",
+            variant_group_id: variantGroupId,
+            variant_index: variantIndex,
+            seconds,
+            size,
+            provider: provider.name,
+            has_input_reference: !!inputReference,
+            input_reference_id: storedReference?.id ?? null,
+            request_params: requestParams,
+            ...sequencePosition,
+          }))
+          variantIndex++
+        }
+      } catch (insertError) {
+        // Nothing tracks the job when none of its videos was saved
+        if (jobRecords.length === 0) await cancelUntrackedJob(provider, job.id)
+        throw insertError
       }
-      return
-    }
-
-    // Download video content
-    console.log(`[DOWNLOAD] 📥 Starting video download for job: ${jobId}`)
-    
-    // Get the latest status to access generations array
-    const finalStatusResponse = await fetch(providerConfig.statusUrl(jobId), {
-      method: "GET",
-      headers: providerConfig.headers,
-    })
-    
-    if (!finalStatusResponse.ok) {
-      console.error(`[DOWNLOAD] ❌ Failed to get final status for job: ${jobId}`)
-      await updateVideoStatus(recordId, { status: "failed" })
-      return
-    }
-    
-    const finalStatusData = await finalStatusResponse.json()
-    const generations = finalStatusData.generations ?? []
-    
-    if (generations.length === 0) {
-      console.error(`[DOWNLOAD] ❌ No generations found for job: ${jobId}`)
-      await updateVideoStatus(recordId, { status: "failed" })
-      return
-    }
-    
-    const generationId = generations[0].id
-    console.log(`[DOWNLOAD] 📹 Found generation ID: ${generationId}`)
-    
-    // Construct the correct video content URL using generationId
-    const videoContentUrl = `${AZURE_ENDPOINT}/video/generations/${generationId}/content/video?api-version=${process.env.AZURE_API_VERSION || 'preview'}`
-    
-    console.log(`[DOWNLOAD] 🔗 Fetching video from: ${videoContentUrl}`)
-    
-    const contentResponse = await fetch(videoContentUrl, {
-      method: "GET",
-      headers: providerConfig.headers,
-    })
 
-    console.log(`[DOWNLOAD] 📊 Video download response status: ${contentResponse.status}`)
+      console.log("[VIDEO-GEN] ✅ Video record(s) saved:", {
+        recordIds: jobRecords.map((record) => record.id),
+        jobId: job.id
+      })
 
-    if (!contentResponse.ok) {
-      console.error(`[DOWNLOAD] ❌ Failed to download video content for job: ${jobId}`, {
-        status: contentResponse.status,
-        statusText: contentResponse.statusText
+      // Hand the job to the background worker
+      console.log("[VIDEO-GEN] 🔄 Enqueueing background processing for job:", job.id)
+      await enqueueVideoJob({
+        videoRecordId: jobRecords[0].id,
+        provider: provider.name,
+        providerJobId: job.id,
+        jobType: "generate",
       })
-      
-      console.log(`[DOWNLOAD] 💾 Updating database status to 'failed' due to download failure for record: ${recordId}`)
-      try {
-        await updateVideoStatus(recordId, { status: "failed" })
-        console.log(`[DOWNLOAD] ✅ Successfully updated database status to 'failed' after download failure`)
-      } catch (downloadError) {
-        console.error(`[DOWNLOAD] ❌ Failed to update database status after download failure:`, downloadError)
-      }
-      return
-    }
 
-    console.log(`[DOWNLOAD] 🔄 Converting video to blob and processing...`)
-    const videoBlob = await contentResponse.blob()
-    const blobSize = videoBlob.size
-    console.log(`[DOWNLOAD] 📊 Video blob size: ${(blobSize / 1024 / 1024).toFixed(2)} MB`)
-    
-    // Upload to Supabase Storage instead of converting to base64
-    console.log(`[DOWNLOAD] 📤 Uploading video to Supabase Storage...`)
-    try {
-      const videoUrl = await uploadVideoToStorage(videoBlob, jobId)
-      console.log(`[DOWNLOAD] ✅ Video uploaded successfully:`, videoUrl)
+      videoRecords.push(...jobRecords)
+    }
 
-      // Update database with completed video URL
-      console.log(`[DOWNLOAD] 💾 Updating database with completed video for record: ${recordId}`)
-      await updateVideoStatus(recordId, { 
-        video_url: videoUrl, 
-        status: "completed" 
-      })
-      console.log(`[DOWNLOAD] 🎉 Successfully updated database - video is now ready! Record: ${recordId}, Job: ${jobId}`)
-    } catch (uploadError) {
-      console.error(`[DOWNLOAD] ❌ Failed to upload video to storage:`, uploadError)
-      // Update status to failed if upload fails
-      await updateVideoStatus(recordId, { 
-        status: "failed",
-        error_message: `Failed to upload video: ${uploadError instanceof Error ? uploadError.message : 'Unknown error'}`
+    // The extended video becomes the first clip of the sequence if it was on its own
+    if (sequencePosition) {
+      await startVideoSequence(sequencePosition.previous_video_id).catch((error) => {
+        console.error("[VIDEO-GEN] ⚠️ Failed to start the sequence of the extended video:", error)
       })
     }
-  } catch (error) {
-    console.error("[POLLING] ❌ Unexpected error in background polling:", {
-      jobId,
-      recordId,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
+
+    return NextResponse.json({
+      video: videoRecords[0],
+      videos: videoRecords,
+      ...(videoRecords.length < variants ? { warning: `Only ${videoRecords.length} of ${variants} variants could be submitted` } : {}),
     })
+  } catch (error) {
+    console.error("[VIDEO-GEN] ❌ Unexpected error generating video:", error)
     
-    // Mark as failed on error
-    console.log(`[POLLING] 💾 Attempting to mark video as failed due to unexpected error...`)
-    try {
-      await updateVideoStatus(recordId, { status: "failed" })
-      console.log(`[POLLING] ✅ Successfully marked video as failed after error`)
-    } catch (dbError) {
-      console.error("[POLLING] ❌ Critical error: Failed to update status to failed:", dbError)
+    // Handle specific error types
+    if (error instanceof ProviderRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
+    if (error instanceof Error) {
+      if (error.name === 'DatabaseTimeoutError') {
+        return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+      }
+      if (error.name === 'DatabaseConnectionError') {
+        return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+      }
+    }
+    
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { isCronRequestAuthorized } from "@/lib/cron-auth"
+import { runVideoJobWorkerOnce } from "@/lib/job-worker"
+
+/**
+ * Process one batch of due video jobs. Meant to be called by a scheduler
+ * (e.g. Vercel Cron) where no long-running worker is available.
+ * Requires "Authorization: Bearer $CRON_SECRET"; without CRON_SECRET it is
+ * only available while authentication is disabled.
+ */
+export async function GET(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const processed = await runVideoJobWorkerOnce()
+    return NextResponse.json({ success: true, processed })
+  } catch (error) {
+    console.error("[JOBS-RUN] ❌ Failed to process video jobs:", error)
+    return NextResponse.json({ error: "Failed to process video jobs" }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { getMockJob, getMockJobState, isMockApiEnabled, mockError } from "@/lib/mock-sora/store"
+import { colorFromText, generateMockMp4 } from "@/lib/mock-sora/mp4"
+
+/**
+ * Mock of GET /v1/videos/{id}/content - serves a generated solid color MP4
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json(mockError("Not found", "not_found"), { status: 404 })
+  }
+
+  const { id } = await params
+  const job = getMockJob(id)
+
+  if (!job) {
+    return NextResponse.json(mockError(`Video ${id} not found`, "not_found"), { status: 404 })
+  }
+
+  if (getMockJobState(job).status !== "completed") {
+    return NextResponse.json(mockError(`Video ${id} is not completed`, "video_not_ready"), { status: 409 })
+  }
+
+  const [width, height] = job.size.split("x").map(Number)
+  const mp4 = generateMockMp4({
+    width,
+    height,
+    seconds: Number(job.seconds),
+    color: colorFromText(job.prompt),
+  })
+
+  return new Response(mp4, {
+    headers: {
+      "Content-Type": "video/mp4",
+      "Content-Length": String(mp4.byteLength),
+    },
+  })
+}
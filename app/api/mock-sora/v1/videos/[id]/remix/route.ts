@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { createMockJob, getMockJob, getMockJobState, isMockApiEnabled, mockError, toVideoObject } from "@/lib/mock-sora/store"
+
+/**
+ * Mock of POST /v1/videos/{id}/remix
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json(mockError("Not found", "not_found"), { status: 404 })
+  }
+
+  const { id } = await params
+  const source = getMockJob(id)
+
+  if (!source) {
+    return NextResponse.json(mockError(`Video ${id} not found`, "not_found"), { status: 404 })
+  }
+
+  if (getMockJobState(source).status !== "completed") {
+    return NextResponse.json(mockError(`Video ${id} must be completed before it can be remixed`), { status: 400 })
+  }
+
+  let body: { prompt?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(mockError("Invalid request body"), { status: 400 })
+  }
+
+  const { prompt } = body
+  if (!prompt || typeof prompt !== "string") {
+    return NextResponse.json(mockError("prompt is required"), { status: 400 })
+  }
+
+  const job = createMockJob({
+    model: source.model,
+    prompt,
+    seconds: source.seconds,
+    size: source.size,
+    remixedFromVideoId: source.id,
+  })
+  console.log(`[MOCK-SORA] 🧪 Created mock remix job:`, { id: job.id, source: source.id })
+
+  return NextResponse.json(toVideoObject(job))
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { deleteMockJob, getMockJob, isMockApiEnabled, mockError, toVideoObject } from "@/lib/mock-sora/store"
+
+/**
+ * Mock of GET /v1/videos/{id}
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json(mockError("Not found", "not_found"), { status: 404 })
+  }
+
+  const { id } = await params
+  const job = getMockJob(id)
+
+  if (!job) {
+    return NextResponse.json(mockError(`Video ${id} not found`, "not_found"), { status: 404 })
+  }
+
+  return NextResponse.json(toVideoObject(job))
+}
+
+/**
+ * Mock of DELETE /v1/videos/{id}
+ */
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json(mockError("Not found", "not_found"), { status: 404 })
+  }
+
+  const { id } = await params
+  const job = getMockJob(id)
+
+  if (!job) {
+    return NextResponse.json(mockError(`Video ${id} not found`, "not_found"), { status: 404 })
+  }
+
+  deleteMockJob(id)
+  return NextResponse.json({ id, object: "video.deleted", deleted: true })
+}
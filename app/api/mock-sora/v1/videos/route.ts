@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { createMockJob, isMockApiEnabled, MOCK_SECONDS, MOCK_SIZES, mockError, toVideoObject } from "@/lib/mock-sora/store"
+
+/**
+ * Mock of POST /v1/videos (OpenAI Videos API) used when AI_PROVIDER=mock
+ */
+export async function POST(request: Request) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json(mockError("Not found", "not_found"), { status: 404 })
+  }
+
+  const contentType = request.headers.get("content-type") || ""
+  let body: Record<string, unknown>
+
+  try {
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData()
+      body = Object.fromEntries(formData.entries())
+    } else {
+      body = await request.json()
+    }
+  } catch {
+    return NextResponse.json(mockError("Invalid request body"), { status: 400 })
+  }
+
+  const prompt = body.prompt
+  const model = (body.model as string) || "sora-2"
+  const seconds = String(body.seconds || "4")
+  const size = (body.size as string) || "720x1280"
+
+  if (!prompt || typeof prompt !== "string") {
+    return NextResponse.json(mockError("prompt is required"), { status: 400 })
+  }
+  if (!MOCK_SECONDS.includes(seconds)) {
+    return NextResponse.json(mockError(`Invalid seconds: ${seconds}`), { status: 400 })
+  }
+  if (!MOCK_SIZES.includes(size)) {
+    return NextResponse.json(mockError(`Invalid size: ${size}`), { status: 400 })
+  }
+
+  const job = createMockJob({ model, prompt, seconds, size })
+  console.log(`[MOCK-SORA] 🧪 Created mock video job:`, { id: job.id, model, seconds, size })
+
+  return NextResponse.json(toVideoObject(job))
+}
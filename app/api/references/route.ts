@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { fetchReferences } from "@/lib/database-utils"
+import { withReferenceUrls } from "@/lib/storage-utils"
+
+export async function GET() {
+  try {
+    console.log("[REFERENCES-API] 📋 Fetching input references")
+
+    const references = await withReferenceUrls(await fetchReferences())
+
+    console.log(`[REFERENCES-API] ✅ Successfully fetched ${references.length} references`)
+    return NextResponse.json({ references })
+  } catch (error) {
+    console.error("[REFERENCES-API] ❌ Error fetching references:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { getShareAccessCookie, resolveVideoShare, takeShareUnlockAttempt, verifySharePassword } from "@/lib/video-shares"
+
+/**
+ * Address of the client, as reported by the proxy in front of the app
+ */
+const getClientAddress = (request: Request) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown"
+
+/**
+ * Check the password of a protected share link and remember the visitor with
+ * a cookie. Public: share pages are opened without a session, so attempts
+ * are rate limited per link and per client.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+    const body = await request.json().catch(() => ({}))
+    const password = typeof body.password === "string" ? body.password : ""
+
+    const resolved = await resolveVideoShare(token)
+    if (!resolved) {
+      return NextResponse.json({ error: "This link is invalid or has expired" }, { status: 404 })
+    }
+
+    const { share } = resolved
+    if (!share.password_hash) {
+      return NextResponse.json({ success: true })
+    }
+
+    const retryAfterSeconds = takeShareUnlockAttempt(share.id, getClientAddress(request))
+    if (retryAfterSeconds !== null) {
+      console.log(`[SHARE] ⏳ Too many password attempts for share link: ${share.id}`)
+      return NextResponse.json(
+        { error: `Too many attempts, try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s)` },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+      )
+    }
+
+    if (!(await verifySharePassword(password, share.password_hash))) {
+      console.log(`[SHARE] 🔒 Wrong password for share link: ${share.id}`)
+      return NextResponse.json({ error: "Wrong password" }, { status: 401 })
+    }
+
+    const cookie = getShareAccessCookie({ token: share.token, password_hash: share.password_hash })
+    const response = NextResponse.json({ success: true })
+    response.cookies.set(cookie.name, cookie.value, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: `/share/${share.token}`,
+      ...(share.expires_at ? { expires: new Date(share.expires_at) } : {}),
+    })
+    return response
+  } catch (error) {
+    console.error("[SHARE] ❌ Error unlocking share link:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
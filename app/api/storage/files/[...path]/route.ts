@@ -0,0 +1,89 @@
+import { createReadStream } from "fs"
+import { stat } from "fs/promises"
+import { Readable } from "stream"
+import { NextResponse, type NextRequest } from "next/server"
+import { getStorageDriverName, isPrivateStorage } from "@/lib/storage"
+import { getLocalContentType, resolveLocalPath, verifyLocalSignature } from "@/lib/storage/local"
+
+/**
+ * Serves the files of the local storage driver (STORAGE_DRIVER=local), with
+ * HTTP range support so videos can be seeked. A private directory only serves
+ * signed URLs.
+ */
+
+type ByteRange = { start: number; end: number }
+
+/**
+ * Parse a single "bytes=" range
+ * @returns null to serve the whole file, "unsatisfiable" for ranges past its end
+ */
+const parseRange = (header: string | null, size: number): ByteRange | "unsatisfiable" | null => {
+  // Multiple ranges are allowed to be answered with the whole file
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = Number(match[2])
+    if (length === 0) return "unsatisfiable"
+    return { start: Math.max(size - length, 0), end: size - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  if (start >= size || end < start) return "unsatisfiable"
+  return { start, end }
+}
+
+const serveFile = async (request: NextRequest, params: Promise<{ path: string[] }>, includeBody: boolean) => {
+  if (getStorageDriverName() !== "local") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const path = (await params).path.join("/")
+  const location = resolveLocalPath(path)
+  if (!location) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { searchParams } = request.nextUrl
+  if (isPrivateStorage() && !verifyLocalSignature(path, searchParams.get("expires"), searchParams.get("signature"))) {
+    return NextResponse.json({ error: "Invalid or expired signature" }, { status: 403 })
+  }
+
+  const file = await stat(location).catch(() => null)
+  if (!file?.isFile()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const headers = new Headers({
+    "Accept-Ranges": "bytes",
+    "Content-Type": getLocalContentType(path),
+    "Last-Modified": file.mtime.toUTCString(),
+    // Signed URLs are per user and expire; public files never change in place
+    "Cache-Control": isPrivateStorage() ? "private, max-age=300" : "public, max-age=3600",
+  })
+
+  const range = parseRange(request.headers.get("range"), file.size)
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${file.size}`)
+    return new NextResponse(null, { status: 416, headers })
+  }
+
+  const { start, end } = range ?? { start: 0, end: file.size - 1 }
+  headers.set("Content-Length", String(end - start + 1))
+  if (range) headers.set("Content-Range", `bytes ${start}-${end}/${file.size}`)
+
+  const body = includeBody && file.size > 0
+    ? (Readable.toWeb(createReadStream(location, { start, end })) as ReadableStream<Uint8Array>)
+    : null
+  return new NextResponse(body, { status: range ? 206 : 200, headers })
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  return serveFile(request, params, true)
+}
+
+export async function HEAD(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  return serveFile(request, params, false)
+}
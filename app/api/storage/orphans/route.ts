@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { isCronRequestAuthorized } from "@/lib/cron-auth"
+import { reconcileStorageOrphans, scanStorageOrphans } from "@/lib/storage-orphans"
+
+/**
+ * Storage maintenance across all users: GET lists files without a video or
+ * reference and videos or references without a file, POST cleans them up.
+ * Requires "Authorization: Bearer $CRON_SECRET"; without CRON_SECRET it is
+ * only available while authentication is disabled.
+ */
+export async function GET(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    console.log("[STORAGE-ORPHANS] 🔍 Scanning storage for orphans")
+    const report = await scanStorageOrphans()
+
+    console.log("[STORAGE-ORPHANS] ✅ Scan finished:", {
+      orphanedFiles: report.orphanedFiles.length,
+      videosWithoutFile: report.videosWithoutFile.length,
+      referencesWithoutFile: report.referencesWithoutFile.length,
+    })
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("[STORAGE-ORPHANS] ❌ Failed to scan storage:", error)
+    return NextResponse.json({ error: "Failed to scan storage" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    console.log("[STORAGE-ORPHANS] 🧹 Reconciling storage with the database")
+    const { report, ...result } = await reconcileStorageOrphans()
+
+    console.log("[STORAGE-ORPHANS] ✅ Reconciliation finished:", result)
+    return NextResponse.json({ success: true, ...result, report })
+  } catch (error) {
+    console.error("[STORAGE-ORPHANS] ❌ Failed to reconcile storage:", error)
+    return NextResponse.json({ error: "Failed to reconcile storage" }, { status: 500 })
+  }
+}
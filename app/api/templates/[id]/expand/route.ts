@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server"
+import { fetchPromptTemplate } from "@/lib/database-utils"
+import { BATCH_LIMITS, validateBatchRows } from "@/lib/batches"
+import { createVideoBatch } from "@/lib/batch-queue"
+import { advanceVideoBatches } from "@/lib/batch-worker"
+import { countTemplateCombinations, expandTemplateValues, extractTemplateVariables, getMissingTemplateVariables, getTemplateValue, renderTemplate } from "@/lib/prompt-templates"
+
+/**
+ * Expand a template across lists of variable values into a batch: one job
+ * per combination of values, generated with the batch concurrency cap.
+ * Body: { values: { [variable]: string[] }, model?, seconds?, size?, maxConcurrency? }
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    console.log(`[TEMPLATES-API] 🧩 Expanding template: ${id}`)
+
+    const template = await fetchPromptTemplate(id)
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    // Values of unknown variables would only duplicate prompts
+    // No prototype, so a variable named __proto__ is stored like any other
+    const valueLists: Record<string, string[]> = Object.create(null)
+    for (const name of extractTemplateVariables(template.body)) {
+      const values = (body.values && getTemplateValue<unknown>(body.values, name)) ?? []
+      if (!Array.isArray(values) || values.some((value) => typeof value !== "string")) {
+        return NextResponse.json({ error: `Values of ${name} must be a list of strings` }, { status: 400 })
+      }
+      valueLists[name] = values
+    }
+
+    // Counted first: the product of a few long lists is too large to build
+    const combinationCount = countTemplateCombinations(valueLists)
+    if (combinationCount > BATCH_LIMITS.maxItems) {
+      return NextResponse.json({
+        error: `A batch can contain at most ${BATCH_LIMITS.maxItems} rows (found ${combinationCount} combinations)`
+      }, { status: 400 })
+    }
+
+    const combinations = expandTemplateValues(valueLists)
+    const missing = getMissingTemplateVariables(template.body, combinations[0])
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Missing values for: ${missing.join(", ")}` }, { status: 400 })
+    }
+
+    const maxConcurrency = Number(body.maxConcurrency ?? BATCH_LIMITS.defaultConcurrency)
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1 || maxConcurrency > BATCH_LIMITS.maxConcurrency) {
+      return NextResponse.json({ error: `Concurrency must be between 1 and ${BATCH_LIMITS.maxConcurrency}` }, { status: 400 })
+    }
+
+    const { items, errors } = validateBatchRows(combinations.map((values) => ({
+      prompt: renderTemplate(template.body, values),
+      model: body.model,
+      seconds: body.seconds,
+      size: body.size,
+    })))
+    if (errors.length > 0) {
+      console.log(`[TEMPLATES-API] ❌ Expansion has ${errors.length} invalid row(s)`)
+      return NextResponse.json({ error: errors[0].message, rowErrors: errors }, { status: 400 })
+    }
+
+    const batch = await createVideoBatch({ name: template.name, maxConcurrency, items })
+    console.log("[TEMPLATES-API] ✅ Template expanded into batch:", { templateId: id, batchId: batch.id, items: items.length })
+
+    try {
+      await advanceVideoBatches()
+    } catch (advanceError) {
+      console.warn("[TEMPLATES-API] ⚠️ Batch will be started by the next worker run:", advanceError)
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error("[TEMPLATES-API] ❌ Unexpected error expanding template:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { deletePromptTemplate, updatePromptTemplate } from "@/lib/database-utils"
+import { promptTemplateSchema } from "@/lib/prompt-templates"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const parsed = promptTemplateSchema.partial().safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const template = await updatePromptTemplate(id, parsed.data)
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    console.log("[TEMPLATES-API] ✅ Template updated:", { templateId: id })
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("[TEMPLATES-API] ❌ Unexpected error updating template:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!(await deletePromptTemplate(id))) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    console.log("[TEMPLATES-API] ✅ Template deleted:", { templateId: id })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[TEMPLATES-API] ❌ Unexpected error deleting template:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
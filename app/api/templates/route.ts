@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { fetchPromptTemplates, insertPromptTemplate } from "@/lib/database-utils"
+import { promptTemplateSchema } from "@/lib/prompt-templates"
+
+export async function GET() {
+  try {
+    console.log("[TEMPLATES-API] 📋 Fetching prompt templates")
+
+    const templates = await fetchPromptTemplates()
+
+    console.log(`[TEMPLATES-API] ✅ Successfully fetched ${templates.length} templates`)
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error("[TEMPLATES-API] ❌ Error fetching templates:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = promptTemplateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const template = await insertPromptTemplate(parsed.data)
+
+    console.log("[TEMPLATES-API] ✅ Template created:", { templateId: template.id, name: template.name })
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("[TEMPLATES-API] ❌ Unexpected error creating template:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,138 +1,48 @@
 import { NextResponse } from "next/server"
-import { getProviderConfig, getCurrentProvider } from "@/lib/provider-config"
-import { fetchVideoByVideoId, updateVideoStatus } from "@/lib/database-utils"
-import { uploadVideoToStorage } from "@/lib/storage-utils"
-
-// Azure endpoint constant
-const AZURE_ENDPOINT = "https://stefa-m74csuwx-eastus2.openai.azure.com/openai/v1"
-
+import { fetchVideoById, fetchVideoByVideoId } from "@/lib/database-utils"
+import { withPlaybackUrl } from "@/lib/storage-utils"
+
+/**
+ * Polling fallback for the progress stream (/api/videos/stream). Progress is
+ * read from the database, where the job worker stores it, so polling never
+ * reaches the provider. Takes the video record `id` (preferred, identifies a
+ * single variant) or the provider `video_id`.
+ */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
-    const videoId = searchParams.get("video_id")
+    const recordId = searchParams.get("id")
+    const videoId = recordId || searchParams.get("video_id")
     
     if (!videoId) {
-      return NextResponse.json({ error: "video_id parameter is required" }, { status: 400 })
+      return NextResponse.json({ error: "id or video_id parameter is required" }, { status: 400 })
     }
 
     console.log(`[PROGRESS] 📊 Checking progress for video: ${videoId}`)
 
-    const video = await fetchVideoByVideoId(videoId)
+    const storedVideo = recordId ? await fetchVideoById(recordId) : await fetchVideoByVideoId(videoId)
+    if (!storedVideo) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+    const video = await withPlaybackUrl(storedVideo)
 
     console.log(`[PROGRESS] 📋 Current status for ${videoId}:`, {
       status: video.status,
+      progress: video.progress ?? "unknown",
       hasError: !!video.error_message,
       hasVideo: !!video.video_url
     })
 
-    // If video is still in progress, try to get real-time status from provider
-    if (video.status === "in_progress") {
-      try {
-        const providerConfig = getProviderConfig()
-        console.log(`[PROGRESS] 🔍 Fetching real-time status from ${getCurrentProvider().toUpperCase()}...`)
-        const statusResponse = await fetch(providerConfig.statusUrl(videoId), {
-          method: "GET",
-          headers: providerConfig.headers,
-        })
-
-        if (statusResponse.ok) {
-          const statusData = await statusResponse.json()
-          console.log(`[PROGRESS] 📡 Real-time status from ${getCurrentProvider().toUpperCase()}:`, {
-            status: statusData.status,
-            progress: statusData.progress || "unknown"
-          })
-
-          // If provider reports success but database is still in_progress, update the database
-          if ((statusData.status === "succeeded" || statusData.status === "completed") && !video.video_url) {
-            console.log(`[PROGRESS] 🎉 Video completed! Updating database status...`)
-            
-            try {
-              // Check if we have generations array (Azure API pattern)
-              const generations = statusData.generations ?? []
-              if (generations.length > 0) {
-                const generationId = generations[0].id
-                console.log(`[PROGRESS] 📹 Found generation ID: ${generationId}`)
-                
-                // Construct the correct video content URL using generationId
-                const videoContentUrl = `${AZURE_ENDPOINT}/video/generations/${generationId}/content/video?api-version=${process.env.AZURE_API_VERSION || 'preview'}`
-                
-                console.log(`[PROGRESS] 🔗 Fetching video from: ${videoContentUrl}`)
-                
-                const contentResponse = await fetch(videoContentUrl, {
-                  method: "GET",
-                  headers: providerConfig.headers,
-                })
-
-               if (contentResponse.ok) {
-                 const videoBlob = await contentResponse.blob()
-                 console.log(`[PROGRESS] 📊 Video blob size: ${(videoBlob.size / 1024 / 1024).toFixed(2)} MB`)
-                 
-                 // Upload to Supabase Storage
-                 console.log(`[PROGRESS] 📤 Uploading video to Supabase Storage...`)
-                 const videoUrl = await uploadVideoToStorage(videoBlob, videoId)
-                 console.log(`[PROGRESS] ✅ Video uploaded successfully:`, videoUrl)
-
-                 // Update the database with completed status and video URL
-                 await updateVideoStatus(video.id, {
-                   status: "completed",
-                   video_url: videoUrl
-                 })
-
-                  console.log(`[PROGRESS] ✅ Database updated successfully for video ${videoId}`)
-
-                  return NextResponse.json({
-                    status: "completed",
-                    progress: 100,
-                    error_message: null,
-                    video_url: videoUrl,
-                    provider_status: statusData.status,
-                    updated_at: new Date().toISOString()
-                  })
-                } else {
-                  console.error(`[PROGRESS] ❌ Failed to fetch video content: ${contentResponse.status}`)
-                  // Update status to completed but without video URL
-                  await updateVideoStatus(video.id, {
-                    status: "completed"
-                  })
-                }
-              } else {
-                console.warn(`[PROGRESS] ⚠️ No generations found in response for video ${videoId}`)
-                // Update status to completed but without video URL
-                await updateVideoStatus(video.id, {
-                  status: "completed"
-                })
-              }
-            } catch (fetchError) {
-              console.error(`[PROGRESS] ❌ Error fetching video content:`, fetchError)
-              // Update status to completed but without video URL
-              await updateVideoStatus(video.id, {
-                status: "completed"
-              })
-            }
-          }
-
-          return NextResponse.json({
-            status: video.status,
-            progress: statusData.progress || null,
-            error_message: video.error_message,
-            video_url: video.video_url,
-            provider_status: statusData.status,
-            updated_at: new Date().toISOString()
-          })
-        } else {
-          console.warn(`[PROGRESS] ⚠️ Failed to fetch real-time status: ${statusResponse.status}`)
-        }
-      } catch (openaiError) {
-        console.warn(`[PROGRESS] ⚠️ Error fetching real-time status:`, openaiError)
-      }
-    }
-
     return NextResponse.json({
       status: video.status,
-      progress: null,
+      progress: video.progress ?? null,
       error_message: video.error_message,
       video_url: video.video_url,
-      updated_at: new Date().toISOString()
+      video_url_expires_at: video.video_url_expires_at ?? null,
+      thumbnail_url: video.thumbnail_url ?? null,
+      preview_url: video.preview_url ?? null,
+      provider_status: video.provider_status ?? null,
+      updated_at: video.updated_at
     })
 
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { fetchVideoById } from "@/lib/database-utils"
+import { getVideoProvider } from "@/lib/providers"
+import { storeLastFrameReference } from "@/lib/references"
+import { withReferenceUrls } from "@/lib/storage-utils"
+import { isFfmpegMissing } from "@/lib/video-thumbnails"
+
+/**
+ * Extract the last frame of a completed video and store it as an input
+ * reference, to generate the next clip of a sequence from it
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[LAST-FRAME-API] 🎞️ Extracting last frame of video: ${id}`)
+
+    const provider = getVideoProvider()
+    if (!provider.capabilities.inputReference) {
+      return NextResponse.json({
+        error: `Input references are not supported with ${provider.name} provider`
+      }, { status: 400 })
+    }
+
+    const video = await fetchVideoById(id)
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+    if (video.status !== "completed") {
+      return NextResponse.json({ error: "Only completed videos can be extended" }, { status: 409 })
+    }
+
+    const reference = await storeLastFrameReference(video)
+    if (!reference) {
+      return NextResponse.json({ error: "The file of this video is not stored" }, { status: 409 })
+    }
+
+    console.log(`[LAST-FRAME-API] ✅ Last frame stored as input reference: ${reference.id}`)
+    const [signedReference] = await withReferenceUrls([reference])
+    return NextResponse.json({ reference: signedReference })
+  } catch (error) {
+    console.error("[LAST-FRAME-API] ❌ Error extracting last frame:", error)
+
+    if (isFfmpegMissing(error)) {
+      return NextResponse.json({ error: "ffmpeg is not installed on the server (set FFMPEG_PATH)" }, { status: 503 })
+    }
+    if (error instanceof Error) {
+      if (error.name === 'DatabaseTimeoutError') {
+        return NextResponse.json({ error: "Database timeout - please try again" }, { status: 504 })
+      }
+      if (error.name === 'DatabaseConnectionError') {
+        return NextResponse.json({ error: "Database connection failed - please try again" }, { status: 503 })
+      }
+    }
+
+    return NextResponse.json({ error: "Failed to extract the last frame" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { fetchVideoLineage } from "@/lib/database-utils"
+import { withPlaybackUrls } from "@/lib/storage-utils"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[LINEAGE-API] 🌳 Fetching remix lineage of video: ${id}`)
+
+    const lineage = await fetchVideoLineage(id)
+    if (!lineage) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    console.log(`[LINEAGE-API] ✅ Found ${lineage.videos.length} videos in lineage`)
+    return NextResponse.json({ ...lineage, videos: await withPlaybackUrls(lineage.videos) })
+  } catch (error) {
+    console.error("[LINEAGE-API] ❌ Error fetching lineage:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
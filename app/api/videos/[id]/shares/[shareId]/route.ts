@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { revokeVideoShare } from "@/lib/video-shares"
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string; shareId: string }> }) {
+  try {
+    const { id, shareId } = await params
+    console.log(`[SHARES-API] 🚫 Revoking share link ${shareId} of video ${id}`)
+
+    const revoked = await revokeVideoShare(id, shareId)
+    if (!revoked) {
+      return NextResponse.json({ error: "Share link not found or already revoked" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[SHARES-API] ❌ Error revoking share link:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { createVideoShare, fetchVideoShares } from "@/lib/video-shares"
+import { createShareSchema } from "@/lib/shares"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    console.log(`[SHARES-API] 📋 Fetching share links of video: ${id}`)
+
+    const shares = await fetchVideoShares(id)
+
+    return NextResponse.json({ shares })
+  } catch (error) {
+    console.error("[SHARES-API] ❌ Error fetching share links:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const parsed = createShareSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const share = await createVideoShare(id, parsed.data)
+    if (!share) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    console.log("[SHARES-API] ✅ Share link created:", {
+      videoId: id,
+      shareId: share.id,
+      expiresAt: share.expires_at,
+      hasPassword: share.has_password
+    })
+    return NextResponse.json({ share })
+  } catch (error) {
+    console.error("[SHARES-API] ❌ Unexpected error creating share link:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server"
 import { fetchVideosOptimized } from "@/lib/database-utils"
+import { withPlaybackUrls } from "@/lib/storage-utils"
 
 export async function GET() {
   try {
     console.log("[VIDEOS-API] 📋 Fetching videos with optimized query")
     
-    const videos = await fetchVideosOptimized(50, 0)
+    const videos = await withPlaybackUrls(await fetchVideosOptimized(50, 0))
     
     console.log(`[VIDEOS-API] ✅ Successfully fetched ${videos?.length || 0} videos`)
     return NextResponse.json({ videos })
@@ -0,0 +1,121 @@
+import { createClient } from "@/lib/supabase/server"
+import { fetchVideoProgressForOwner, getRequestUserId } from "@/lib/database-utils"
+import { withPlaybackUrls } from "@/lib/storage-utils"
+import { subscribeToVideoEvents, type VideoEvent } from "@/lib/video-events"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const STREAM_CONFIG = {
+  refreshIntervalMs: 5000, // Database refresh (catches workers in other processes and new videos)
+  heartbeatIntervalMs: 15000, // Keeps proxies from closing an idle connection
+  retryMs: 3000, // Reconnect delay suggested to EventSource
+}
+
+type VideoProgressRow = NonNullable<Awaited<ReturnType<typeof fetchVideoProgressForOwner>>>[number] & {
+  video_url_expires_at?: string
+}
+
+const toVideoEvent = (row: VideoProgressRow): VideoEvent => ({
+  type: row.status === "in_progress" ? "progress" : row.status,
+  recordId: row.id,
+  status: row.status,
+  progress: row.progress ?? null,
+  providerStatus: row.provider_status ?? null,
+  videoUrl: row.video_url || null,
+  videoUrlExpiresAt: row.video_url_expires_at ?? null,
+  thumbnailUrl: row.thumbnail_url,
+  previewUrl: row.preview_url,
+  errorMessage: row.error_message || null,
+  updatedAt: row.updated_at,
+})
+
+/**
+ * Server-Sent Events stream of status, progress and completion events for the
+ * current user's in-progress videos. Each event is sent as `event: video`
+ * with a JSON VideoEvent payload.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient()
+  const userId = await getRequestUserId(supabase)
+  const encoder = new TextEncoder()
+
+  // Last state sent per tracked video, to only push changes
+  const lastSent = new Map<string, string>()
+  let stop = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          stop()
+        }
+      }
+
+      const send = (event: VideoEvent) => {
+        const signature = `${event.status}:${event.progress}:${event.providerStatus}`
+        if (lastSent.get(event.recordId) === signature) return
+
+        write(`event: video\ndata: ${JSON.stringify(event)}\n\n`)
+        if (event.status === "in_progress") {
+          lastSent.set(event.recordId, signature)
+        } else {
+          lastSent.delete(event.recordId)
+        }
+      }
+
+      const refresh = async () => {
+        try {
+          const rows = await withPlaybackUrls(await fetchVideoProgressForOwner(userId, [...lastSent.keys()]) ?? [])
+          rows.forEach((row) => send(toVideoEvent(row)))
+        } catch (error) {
+          console.warn("[VIDEO-STREAM] ⚠️ Failed to refresh video progress:", error instanceof Error ? error.message : error)
+        }
+      }
+
+      // Events from a worker in this process arrive immediately
+      const unsubscribe = subscribeToVideoEvents((event) => {
+        if (lastSent.has(event.recordId)) send(event)
+      })
+      const refreshTimer = setInterval(refresh, STREAM_CONFIG.refreshIntervalMs)
+      const heartbeatTimer = setInterval(() => write(`: heartbeat\n\n`), STREAM_CONFIG.heartbeatIntervalMs)
+
+      stop = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(refreshTimer)
+        clearInterval(heartbeatTimer)
+        request.signal.removeEventListener("abort", stop)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+        console.log("[VIDEO-STREAM] ⏹️ Progress stream closed")
+      }
+      request.signal.addEventListener("abort", stop)
+
+      console.log("[VIDEO-STREAM] 📡 Progress stream opened")
+      write(`retry: ${STREAM_CONFIG.retryMs}\n\n`)
+      refresh()
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+    },
+  })
+}
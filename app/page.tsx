@@ -4,10 +4,13 @@ import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { AppHeader } from "@/components/app-header"
 import { VideoGenerator } from "@/components/video-generator"
+import { BatchGenerator } from "@/components/batch-generator"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { VideoGrid } from "@/components/video-grid"
 import { LoginForm } from "@/components/login-form"
 import { useAuth } from "@/lib/auth-context"
-import type { Video } from "@/types/video"
+import { useSignedUrlRefresh } from "@/hooks/use-signed-url-refresh"
+import type { Video, VideoReference } from "@/types/video"
 
 export default function Home() {
   const { user, loading } = useAuth()
@@ -19,7 +22,10 @@ export default function Home() {
     isActive: boolean
     video: Video | null
   }>({ isActive: false, video: null })
+  const [extendMode, setExtendMode] = useState<{ video: Video; reference: VideoReference } | null>(null)
   const [authCheckTrigger, setAuthCheckTrigger] = useState(0)
+  const [generatorMode, setGeneratorMode] = useState("single")
+  const [batchRefreshToken, setBatchRefreshToken] = useState(0)
 
   // Check if auth is enabled
   const authEnabled = process.env.NEXT_PUBLIC_AUTH_ENABLED === 'true'
@@ -66,6 +72,9 @@ export default function Home() {
         const data = await response.json()
         
         setVideos(data.videos)
+      } else if (response.status === 401) {
+        // Session expired or was revoked on the server
+        router.push('/login')
       } else {
         console.error("Failed to fetch videos:", response.status, response.statusText)
       }
@@ -76,10 +85,17 @@ export default function Home() {
     }
   }
 
+  // Signed URLs of a private bucket expire; fetch new ones in time
+  useSignedUrlRefresh(videos, fetchVideos)
+
   const handleVideoGenerated = (newVideo: Video) => {
     setVideos((prev) => [newVideo, ...prev])
   }
 
+  const handleVideosGenerated = (newVideos: Video[]) => {
+    setVideos((prev) => [...newVideos, ...prev])
+  }
+
   const handleVideoFetched = (newVideo: Video) => {
     setVideos((prev) => [newVideo, ...prev])
   }
@@ -95,6 +111,7 @@ export default function Home() {
   }
 
   const handlePromptReuse = (prompt: string) => {
+    setGeneratorMode("single")
     setExternalPrompt(prompt)
     // Clear the external prompt after a short delay to allow the video generator to pick it up
     setTimeout(() => setExternalPrompt(""), 100)
@@ -105,16 +122,35 @@ export default function Home() {
   }
 
   const handleVideoRemix = (video: Video) => {
+    setExtendMode(null)
     setRemixMode({ isActive: true, video })
 
     // Clear the external prompt after a short delay to allow the video generator to pick it up
     setTimeout(() => setExternalPrompt(""), 100)
   }
 
+  // Batches created outside the batch tab (template expansion) are followed there
+  const handleBatchCreated = () => {
+    fetchVideos()
+    setBatchRefreshToken((prev) => prev + 1)
+    setGeneratorMode("batch")
+  }
+
   const handleExitRemix = () => {
     setRemixMode({ isActive: false, video: null })
   }
 
+  // Extending continues a video from its last frame in the single generator
+  const handleVideoExtend = (extension: { video: Video; reference: VideoReference }) => {
+    setRemixMode({ isActive: false, video: null })
+    setGeneratorMode("single")
+    setExtendMode(extension)
+  }
+
+  const handleExitExtend = () => {
+    setExtendMode(null)
+  }
+
   // Show loading state while checking auth
   if (loading) {
     
@@ -155,12 +191,26 @@ export default function Home() {
 
       <main className="container mx-auto px-4 py-12 max-w-6xl">
         <div className="space-y-8">
-          <VideoGenerator
-            onVideoGenerated={handleVideoGenerated}
-            externalPrompt={externalPrompt}
-            remixMode={remixMode}
-            onExitRemix={handleExitRemix}
-          />
+          <Tabs value={remixMode.isActive ? "single" : generatorMode} onValueChange={setGeneratorMode}>
+            <TabsList>
+              <TabsTrigger value="single">Single</TabsTrigger>
+              <TabsTrigger value="batch" disabled={remixMode.isActive}>Batch</TabsTrigger>
+            </TabsList>
+            <TabsContent value="single">
+              <VideoGenerator
+                onVideoGenerated={handleVideoGenerated}
+                externalPrompt={externalPrompt}
+                remixMode={remixMode}
+                onExitRemix={handleExitRemix}
+                extendMode={extendMode}
+                onExitExtend={handleExitExtend}
+                onBatchCreated={handleBatchCreated}
+              />
+            </TabsContent>
+            <TabsContent value="batch" forceMount className="data-[state=inactive]:hidden">
+              <BatchGenerator onBatchVideosCreated={fetchVideos} refreshToken={batchRefreshToken} />
+            </TabsContent>
+          </Tabs>
 
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold">Your Creations</h2>
@@ -171,6 +221,8 @@ export default function Home() {
               onPromptReuse={handlePromptReuse}
               onVideoDelete={handleVideoDelete}
               onVideoRemix={handleVideoRemix}
+              onVideosGenerated={handleVideosGenerated}
+              onVideoExtend={handleVideoExtend}
             />
           </div>
         </div>
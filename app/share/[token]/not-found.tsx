@@ -0,0 +1,10 @@
+export default function ShareNotFound() {
+  return (
+    <div className="flex min-h-svh w-full items-center justify-center p-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold">Link not available</h1>
+        <p className="text-muted-foreground">This share link does not exist, has expired or was revoked.</p>
+      </div>
+    </div>
+  )
+}
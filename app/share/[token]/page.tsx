@@ -0,0 +1,88 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import Image from "next/image"
+import { cookies } from "next/headers"
+import { notFound } from "next/navigation"
+import { getShareAccessCookie, hasShareAccess, recordVideoShareView, resolveVideoShare } from "@/lib/video-shares"
+import { parseVideoSize } from "@/lib/generation-options"
+import { SharePasswordForm } from "@/components/share-password-form"
+
+// Metadata and page resolve the same token once per request
+const getShare = cache(resolveVideoShare)
+
+const SHARE_TITLE = "Shared video · Sora 2 UI"
+
+export async function generateMetadata({ params }: { params: Promise<{ token: string }> }): Promise<Metadata> {
+  const { token } = await params
+  const resolved = await getShare(token)
+
+  // Protected links unfurl without their content
+  if (!resolved || resolved.share.password_hash || resolved.video.status !== "completed") {
+    return { title: SHARE_TITLE, robots: { index: false } }
+  }
+
+  const { video } = resolved
+  const dimensions = parseVideoSize(video.size)
+  const title = video.prompt.length > 70 ? `${video.prompt.substring(0, 70)}...` : video.prompt
+
+  return {
+    title: `${title} · Sora 2 UI`,
+    description: video.prompt,
+    robots: { index: false },
+    openGraph: {
+      type: "video.other",
+      title,
+      description: video.prompt,
+      videos: [{
+        url: video.video_url,
+        type: "video/mp4",
+        ...(dimensions ?? {}),
+      }],
+      ...(video.thumbnail_url ? { images: [{ url: video.thumbnail_url }] } : {}),
+    },
+  }
+}
+
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const resolved = await getShare(token)
+  if (!resolved) notFound()
+
+  const { share, video } = resolved
+  if (share.password_hash) {
+    const cookieStore = await cookies()
+    const cookieName = getShareAccessCookie({ token: share.token, password_hash: share.password_hash }).name
+    if (!hasShareAccess(share, cookieStore.get(cookieName)?.value)) {
+      return <SharePasswordForm token={share.token} />
+    }
+  }
+
+  // A failed counter must not break the page
+  await recordVideoShareView(share.id).catch((error) => {
+    console.error("[SHARE] ❌ Failed to record share view:", error)
+  })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
+      <main className="container mx-auto px-4 py-12 max-w-4xl space-y-6">
+        <div className="flex items-center gap-2">
+          <Image src="/logo.webp" alt="Sora 2 UI" width={32} height={32} />
+          <span className="text-xl font-bold">Sora 2 UI</span>
+        </div>
+
+        {video.status === "completed" && video.video_url ? (
+          <video src={video.video_url} poster={video.thumbnail_url ?? undefined} controls playsInline className="w-full max-h-[75vh] rounded-lg bg-black object-contain" />
+        ) : (
+          <div className="w-full aspect-video rounded-lg border-2 border-dashed flex items-center justify-center text-muted-foreground">
+            {video.status === "in_progress" ? "This video is still being generated" : "This video is not available"}
+          </div>
+        )}
+
+        <p className="whitespace-pre-wrap text-pretty">{video.prompt}</p>
+        <p className="text-xs text-muted-foreground">
+          {[video.model, video.seconds && `${video.seconds}s`, video.size].filter(Boolean).join(" · ")}
+        </p>
+      </main>
+    </div>
+  )
+}
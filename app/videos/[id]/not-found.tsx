@@ -0,0 +1,16 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+
+export default function VideoNotFound() {
+  return (
+    <div className="flex min-h-svh w-full items-center justify-center p-6">
+      <div className="text-center space-y-4">
+        <h1 className="text-2xl font-semibold">Video not found</h1>
+        <p className="text-muted-foreground">This video does not exist, was deleted or belongs to someone else.</p>
+        <Button asChild variant="outline">
+          <Link href="/">Back to your creations</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
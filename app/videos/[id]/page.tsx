@@ -0,0 +1,23 @@
+import { notFound, redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { fetchVideoById, getRequestUserId } from "@/lib/database-utils"
+import { withPlaybackUrl } from "@/lib/storage-utils"
+import { VideoDetail } from "@/components/video-detail"
+import type { Video } from "@/types/video"
+
+// Anything else cannot be a video ID; the query would fail instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export default async function VideoPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  if (process.env.NEXT_PUBLIC_AUTH_ENABLED === 'true') {
+    const userId = await getRequestUserId(await createClient())
+    if (!userId) redirect('/login')
+  }
+
+  const video = UUID_PATTERN.test(id) ? await fetchVideoById(id) : null
+  if (!video) notFound()
+
+  return <VideoDetail initialVideo={await withPlaybackUrl(video as Video)} />
+}
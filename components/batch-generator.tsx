@@ -0,0 +1,350 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Ban, ChevronDown, ChevronRight, FileText, Loader2, Upload, X } from "lucide-react"
+import { BATCH_LIMITS, detectBatchFormat, parseBatchInput, type BatchFormat, type ParsedBatch } from "@/lib/batches"
+import type { VideoBatchDetails, VideoBatchItemResult } from "@/lib/batch-queue"
+
+interface BatchGeneratorProps {
+  // Called when new videos were submitted for a batch, so the grid can reload
+  onBatchVideosCreated: () => void
+  // Changed by the parent when a batch was created elsewhere
+  refreshToken?: number
+}
+
+const BATCH_POLL_INTERVAL_MS = 5000
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5, 10]
+
+const RESULT_LABELS: Record<VideoBatchItemResult, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  submitting: { label: "Submitting", variant: "secondary" },
+  in_progress: { label: "Generating", variant: "secondary" },
+  completed: { label: "Completed", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+}
+
+export function BatchGenerator({ onBatchVideosCreated, refreshToken }: BatchGeneratorProps) {
+  const [file, setFile] = useState<{ name: string; format: BatchFormat; content: string } | null>(null)
+  const [preview, setPreview] = useState<ParsedBatch | null>(null)
+  const [name, setName] = useState("")
+  const [concurrency, setConcurrency] = useState(String(BATCH_LIMITS.defaultConcurrency))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [batches, setBatches] = useState<VideoBatchDetails[]>([])
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const knownVideoIdsRef = useRef<Set<string> | null>(null)
+  const onBatchVideosCreatedRef = useRef(onBatchVideosCreated)
+  onBatchVideosCreatedRef.current = onBatchVideosCreated
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch("/api/batches")
+      if (!response.ok) {
+        console.error("Failed to fetch batches:", response.status, response.statusText)
+        return
+      }
+
+      const data = await response.json()
+      const nextBatches: VideoBatchDetails[] = data.batches
+
+      // Reload the grid when the worker submitted new items since the last fetch
+      const videoIds = new Set(
+        nextBatches.flatMap((batch) => batch.items.map((item) => item.video_record_id).filter((id): id is string => !!id))
+      )
+      const knownVideoIds = knownVideoIdsRef.current
+      if (knownVideoIds && [...videoIds].some((id) => !knownVideoIds.has(id))) {
+        onBatchVideosCreatedRef.current()
+      }
+      knownVideoIdsRef.current = videoIds
+
+      setBatches(nextBatches)
+    } catch (fetchError) {
+      console.error("Error fetching batches:", fetchError)
+    }
+  }, [])
+
+  const hasRunningBatch = batches.some((batch) => batch.status === "running")
+
+  useEffect(() => {
+    fetchBatches()
+  }, [fetchBatches, refreshToken])
+
+  // Poll while a batch is running
+  useEffect(() => {
+    if (!hasRunningBatch) return
+    const interval = setInterval(fetchBatches, BATCH_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasRunningBatch, fetchBatches])
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    if (!selected) return
+
+    const format = detectBatchFormat(selected.name)
+    if (!format) {
+      setError("Please select a .csv or .json file")
+      handleRemoveFile()
+      return
+    }
+
+    const content = await selected.text()
+    setFile({ name: selected.name, format, content })
+    setPreview(parseBatchInput(content, format))
+    setError(null)
+    if (!name) {
+      setName(selected.name.replace(/\.(csv|json)$/i, ""))
+    }
+  }
+
+  const handleRemoveFile = () => {
+    setFile(null)
+    setPreview(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!file || !preview || preview.errors.length > 0) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim() || undefined,
+          format: file.format,
+          content: file.content,
+          maxConcurrency: Number(concurrency),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        // The server validates again; show its row errors in the preview
+        if (data.rowErrors) {
+          setPreview({ items: [], errors: data.rowErrors })
+        }
+        throw new Error(data.error || "Failed to create batch")
+      }
+
+      handleRemoveFile()
+      setName("")
+      setExpandedBatchId(data.batch.id)
+      await fetchBatches()
+      onBatchVideosCreatedRef.current()
+    } catch (err) {
+      console.error("[DEBUG] Error creating batch:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCancelBatch = async (batchId: string) => {
+    try {
+      const response = await fetch(`/api/batches/${batchId}/cancel`, { method: "POST" })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to cancel batch")
+      }
+      await fetchBatches()
+    } catch (err) {
+      console.error("[DEBUG] Error cancelling batch:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2">
+        <CardContent>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload a CSV file with a <code>prompt,model,seconds,size</code> header or a JSON array of rows.
+              Only <code>prompt</code> is required; up to {BATCH_LIMITS.maxItems} rows per batch.
+            </p>
+
+            <div className="flex flex-row flex-wrap items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSubmitting}
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                {file ? "Change file" : "Choose file"}
+              </Button>
+
+              {file && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <FileText className="h-4 w-4" />
+                  <span className="truncate max-w-[200px]">{file.name}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={handleRemoveFile} className="h-6 w-6 p-0">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+
+              <Input
+                placeholder="Batch name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-56"
+                disabled={isSubmitting}
+              />
+
+              <Select value={concurrency} onValueChange={setConcurrency}>
+                <SelectTrigger id="concurrency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} at a time
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {preview && preview.errors.length === 0 && (
+              <p className="text-sm text-muted-foreground">{preview.items.length} prompt(s) ready to generate</p>
+            )}
+            {preview && preview.errors.length > 0 && (
+              <ul className="text-sm text-destructive space-y-1 max-h-40 overflow-y-auto">
+                {preview.errors.map((rowError, index) => (
+                  <li key={index}>{rowError.row ? `Row ${rowError.row}: ${rowError.message}` : rowError.message}</li>
+                ))}
+              </ul>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || !preview || preview.items.length === 0 || preview.errors.length > 0}
+              className="w-full"
+              size="lg"
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Starting batch...
+                </>
+              ) : (
+                `Generate ${preview?.items.length || ""} Videos`
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {batches.length > 0 && (
+        <div className="space-y-3">
+          {batches.map((batch) => {
+            const finished = batch.summary.completed + batch.summary.failed + batch.summary.cancelled
+            const isExpanded = expandedBatchId === batch.id
+
+            return (
+              <Card key={batch.id} className="py-4">
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedBatchId(isExpanded ? null : batch.id)}
+                      className="flex items-center gap-2 font-medium text-left"
+                    >
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      {batch.name}
+                      <Badge variant={batch.status === "running" ? "secondary" : "outline"}>{batch.status}</Badge>
+                    </button>
+                    {batch.status === "running" && (
+                      <Button variant="outline" size="sm" onClick={() => handleCancelBatch(batch.id)}>
+                        <Ban className="h-4 w-4 mr-1" />
+                        Stop
+                      </Button>
+                    )}
+                  </div>
+
+                  <Progress value={batch.summary.total ? (finished / batch.summary.total) * 100 : 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {batch.summary.completed} completed · {batch.summary.inProgress} generating · {batch.summary.queued} queued
+                    {batch.summary.failed > 0 && ` · ${batch.summary.failed} failed`}
+                    {batch.summary.cancelled > 0 && ` · ${batch.summary.cancelled} cancelled`}
+                    {` · up to ${batch.max_concurrency} at a time`}
+                  </p>
+
+                  {isExpanded && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">Row</TableHead>
+                          <TableHead>Prompt</TableHead>
+                          <TableHead>Settings</TableHead>
+                          <TableHead>Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {batch.items.map((item) => {
+                          const errorMessage = item.video?.error_message || item.error_message
+                          return (
+                            <TableRow key={item.id}>
+                              <TableCell>{item.item_index + 1}</TableCell>
+                              <TableCell className="max-w-xs truncate" title={item.prompt}>{item.prompt}</TableCell>
+                              <TableCell className="text-xs text-muted-foreground">
+                                {item.model} · {item.seconds}s · {item.size}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant={RESULT_LABELS[item.result].variant}>
+                                    {RESULT_LABELS[item.result].label}
+                                    {item.result === "in_progress" && item.video?.progress != null && ` ${item.video.progress}%`}
+                                  </Badge>
+                                  {item.result === "completed" && item.video?.video_url && (
+                                    <a href={item.video.video_url} target="_blank" rel="noreferrer" className="text-xs underline">
+                                      Open
+                                    </a>
+                                  )}
+                                  {(item.result === "failed" || item.result === "queued") && errorMessage && (
+                                    <span className="text-xs text-destructive truncate max-w-[200px]" title={errorMessage}>
+                                      {errorMessage}
+                                    </span>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertCircle, Ban, Loader2, Pause, Play, RotateCcw } from "lucide-react"
+import { formatSweepRun, type VideoExperiment } from "@/lib/experiments"
+import type { Video } from "@/types/video"
+
+interface ExperimentComparisonProps {
+  experimentId: string | null
+  onClose: () => void
+}
+
+const EXPERIMENT_POLL_INTERVAL_MS = 5000
+// Players further apart than this are snapped back to the leading player
+const MAX_DRIFT_SECONDS = 0.25
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`
+
+/**
+ * Side-by-side view of the runs of a parameter sweep. All finished videos are
+ * driven by one set of controls so they play, pause and seek together.
+ */
+export function ExperimentComparison({ experimentId, onClose }: ExperimentComparisonProps) {
+  const [experiment, setExperiment] = useState<VideoExperiment | null>(null)
+  const [videos, setVideos] = useState<Video[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+
+  const playersRef = useRef<Map<string, HTMLVideoElement>>(new Map())
+
+  const fetchExperiment = useCallback(async () => {
+    if (!experimentId) return
+    try {
+      const response = await fetch(`/api/experiments/${experimentId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load experiment")
+      }
+      setExperiment(data.experiment)
+      setVideos(data.videos)
+      setError(null)
+    } catch (err) {
+      console.error("[DEBUG] Error loading experiment:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [experimentId])
+
+  useEffect(() => {
+    setExperiment(null)
+    setVideos([])
+    setIsPlaying(false)
+    setCurrentTime(0)
+    setDuration(0)
+    fetchExperiment()
+  }, [fetchExperiment])
+
+  // Keep polling until every run has finished
+  const hasRunningVideo = videos.some((video) => video.status === "in_progress")
+  useEffect(() => {
+    if (!experimentId || !hasRunningVideo) return
+    const interval = setInterval(fetchExperiment, EXPERIMENT_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [experimentId, hasRunningVideo, fetchExperiment])
+
+  const players = () => [...playersRef.current.values()]
+
+  // The longest video leads playback; the others follow it
+  const getLeader = () =>
+    players().reduce<HTMLVideoElement | null>((leader, player) =>
+      !leader || (player.duration || 0) > (leader.duration || 0) ? player : leader, null)
+
+  const seekAll = (time: number) => {
+    players().forEach((player) => {
+      player.currentTime = Math.min(time, player.duration || time)
+    })
+    setCurrentTime(time)
+  }
+
+  const playAll = async () => {
+    const time = currentTime >= duration ? 0 : currentTime
+    seekAll(time)
+    await Promise.all(players().map((player) => player.play().catch(() => undefined)))
+    setIsPlaying(true)
+  }
+
+  const pauseAll = () => {
+    players().forEach((player) => player.pause())
+    setIsPlaying(false)
+  }
+
+  const handleLoadedMetadata = () => {
+    setDuration(Math.max(0, ...players().map((player) => player.duration || 0)))
+  }
+
+  const handleTimeUpdate = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const leader = getLeader()
+    if (event.currentTarget !== leader) return
+
+    setCurrentTime(leader.currentTime)
+    players().forEach((player) => {
+      if (player === leader || player.ended || leader.currentTime > player.duration) return
+      if (Math.abs(player.currentTime - leader.currentTime) > MAX_DRIFT_SECONDS) {
+        player.currentTime = leader.currentTime
+      }
+    })
+  }
+
+  const handleEnded = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    if (event.currentTarget === getLeader()) setIsPlaying(false)
+  }
+
+  const registerPlayer = (videoId: string) => (element: HTMLVideoElement | null) => {
+    if (element) playersRef.current.set(videoId, element)
+    else playersRef.current.delete(videoId)
+  }
+
+  const videosById = new Map(videos.map((video) => [video.id, video]))
+  const readyCount = videos.filter((video) => video.status === "completed" && video.video_url).length
+
+  return (
+    <Dialog open={!!experimentId} onOpenChange={(open) => { if (!open) { pauseAll(); onClose() } }}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare runs</DialogTitle>
+          <DialogDescription className="line-clamp-2">{experiment?.prompt ?? "Loading experiment..."}</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!experiment && !error && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {experiment && (
+          <>
+            <div className="flex items-center gap-3">
+              <Button size="sm" onClick={isPlaying ? pauseAll : playAll} disabled={readyCount === 0}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => seekAll(0)} disabled={readyCount === 0} title="Restart">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Slider
+                value={[currentTime]}
+                max={duration || 1}
+                step={0.05}
+                onValueChange={([time]) => seekAll(time)}
+                disabled={readyCount === 0}
+                className="flex-1"
+              />
+              <span className="text-xs text-muted-foreground tabular-nums w-20 text-right">
+                {formatTime(currentTime)} / {formatTime(duration)}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {experiment.runs.map((run, index) => {
+                const video = run.video_record_id ? videosById.get(run.video_record_id) : undefined
+
+                return (
+                  <div key={run.video_record_id ?? `run-${index}`} className="space-y-2">
+                    {video?.status === "completed" && video.video_url ? (
+                      <video
+                        ref={registerPlayer(video.id)}
+                        src={video.video_url}
+                        muted
+                        playsInline
+                        preload="auto"
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onTimeUpdate={handleTimeUpdate}
+                        onEnded={handleEnded}
+                        className="w-full aspect-video rounded-lg bg-black object-contain"
+                      />
+                    ) : (
+                      <div className="w-full aspect-video rounded-lg border-2 border-dashed flex flex-col items-center justify-center gap-2 text-xs text-muted-foreground p-2 text-center">
+                        {video?.status === "in_progress" ? (
+                          <>
+                            <Loader2 className="h-5 w-5 animate-spin" />
+                            Generating{video.progress != null && ` · ${video.progress}%`}
+                          </>
+                        ) : video?.status === "cancelled" ? (
+                          <>
+                            <Ban className="h-5 w-5" />
+                            Cancelled
+                          </>
+                        ) : (
+                          <>
+                            <AlertCircle className="h-5 w-5 text-destructive" />
+                            {video?.error_message || run.error_message || (video ? "Generation failed" : "Video was deleted")}
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <div className="text-xs font-medium">{formatSweepRun(run)}</div>
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,313 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { BookMarked, Loader2, Pencil, Trash2, X } from "lucide-react"
+import { BATCH_LIMITS } from "@/lib/batches"
+import {
+  countTemplateCombinations,
+  extractTemplateVariables,
+  getTemplateValue,
+  renderTemplate,
+  type PromptTemplate,
+} from "@/lib/prompt-templates"
+
+interface PromptTemplatePickerProps {
+  currentPrompt: string
+  onPromptChange: (prompt: string) => void
+  generationOptions: { model: string; seconds: string; size: string }
+  // Called after a template was expanded into a batch of jobs
+  onBatchCreated?: () => void
+  disabled?: boolean
+}
+
+// Each variable input takes one value per line; several lines expand the template
+const splitValues = (text: string) => text.split("\n").map((value) => value.trim()).filter(Boolean)
+
+export function PromptTemplatePicker({
+  currentPrompt,
+  onPromptChange,
+  generationOptions,
+  onBatchCreated,
+  disabled,
+}: PromptTemplatePickerProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [editing, setEditing] = useState<{ id: string | null; name: string; body: string }>({ id: null, name: "", body: "" })
+  const [isSaving, setIsSaving] = useState(false)
+  const [isExpanding, setIsExpanding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch("/api/templates")
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates)
+      } else {
+        console.error("Failed to fetch templates:", response.status, response.statusText)
+      }
+    } catch (fetchError) {
+      console.error("Error fetching templates:", fetchError)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isDialogOpen) fetchTemplates()
+  }, [isDialogOpen, fetchTemplates])
+
+  const variables = activeTemplate ? extractTemplateVariables(activeTemplate.body) : []
+  const valueLists = Object.fromEntries(variables.map((name) => [name, splitValues(getTemplateValue(values, name) ?? "")]))
+  const combinationCount = countTemplateCombinations(valueLists)
+  const isComplete = variables.every((name) => valueLists[name].length > 0)
+  const isExpansion = isComplete && combinationCount > 1
+
+  const handleValueChange = (name: string, text: string) => {
+    const nextValues = { ...values, [name]: text }
+    setValues(nextValues)
+
+    // With a single value per variable the template simply fills the prompt
+    const firstValues = Object.fromEntries(variables.map((variable) => [variable, splitValues(getTemplateValue(nextValues, variable) ?? "")[0] ?? ""]))
+    onPromptChange(renderTemplate(activeTemplate?.body ?? "", firstValues))
+  }
+
+  const handleUseTemplate = (template: PromptTemplate) => {
+    setActiveTemplate(template)
+    setValues({})
+    setError(null)
+    onPromptChange(template.body)
+    setIsDialogOpen(false)
+  }
+
+  const handleCloseTemplate = () => {
+    setActiveTemplate(null)
+    setValues({})
+    setError(null)
+  }
+
+  const handleOpenDialog = () => {
+    // Offer to save the current prompt as a new template
+    setEditing({ id: null, name: "", body: currentPrompt })
+    setError(null)
+    setIsDialogOpen(true)
+  }
+
+  const handleSaveTemplate = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(editing.id ? `/api/templates/${editing.id}` : "/api/templates", {
+        method: editing.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: editing.name, body: editing.body }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save template")
+      }
+
+      if (activeTemplate?.id === data.template.id) {
+        setActiveTemplate(data.template)
+      }
+      setEditing({ id: null, name: "", body: "" })
+      await fetchTemplates()
+    } catch (err) {
+      console.error("[DEBUG] Error saving template:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to delete template")
+      }
+
+      if (activeTemplate?.id === template.id) handleCloseTemplate()
+      await fetchTemplates()
+    } catch (err) {
+      console.error("[DEBUG] Error deleting template:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const handleExpand = async () => {
+    if (!activeTemplate) return
+
+    setIsExpanding(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/templates/${activeTemplate.id}/expand`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values: valueLists, ...generationOptions }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to expand template")
+      }
+
+      setValues({})
+      onPromptChange(activeTemplate.body)
+      onBatchCreated?.()
+    } catch (err) {
+      console.error("[DEBUG] Error expanding template:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsExpanding(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleOpenDialog} disabled={disabled}>
+          <BookMarked className="h-4 w-4 mr-1" />
+          Templates
+        </Button>
+        {activeTemplate && (
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <span>Using <span className="font-medium text-foreground">{activeTemplate.name}</span></span>
+            <Button type="button" variant="ghost" size="sm" onClick={handleCloseTemplate} className="h-6 w-6 p-0" title="Stop using template">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {activeTemplate && variables.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {variables.map((name) => (
+              <div key={name} className="space-y-1">
+                <label htmlFor={`template-${name}`} className="text-xs font-medium text-muted-foreground">{name}</label>
+                <Textarea
+                  id={`template-${name}`}
+                  value={getTemplateValue(values, name) ?? ""}
+                  onChange={(e) => handleValueChange(name, e.target.value)}
+                  placeholder="One value per line"
+                  rows={2}
+                  className="resize-none min-h-0"
+                  disabled={disabled || isExpanding}
+                />
+              </div>
+            ))}
+          </div>
+          {isExpansion && (
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleExpand}
+              disabled={disabled || isExpanding || combinationCount > BATCH_LIMITS.maxItems}
+              className="w-full"
+            >
+              {isExpanding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {combinationCount > BATCH_LIMITS.maxItems
+                ? `Too many combinations (${combinationCount}, max ${BATCH_LIMITS.maxItems})`
+                : `Generate ${combinationCount} videos from all combinations`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && !isDialogOpen && <p className="text-sm text-destructive">{error}</p>}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Prompt templates</DialogTitle>
+            <DialogDescription>
+              Use <code>{"{{variable}}"}</code> placeholders, e.g. <code>{"{{subject}} walking through {{location}}"}</code>.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {templates.length === 0 && <p className="text-sm text-muted-foreground">No templates yet.</p>}
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                <button type="button" onClick={() => handleUseTemplate(template)} className="flex-1 text-left">
+                  <div className="text-sm font-medium">{template.name}</div>
+                  <div className="text-xs text-muted-foreground line-clamp-2">{template.body}</div>
+                </button>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Edit template"
+                    onClick={() => setEditing({ id: template.id, name: template.name, body: template.body })}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Delete template"
+                    onClick={() => handleDeleteTemplate(template)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <div className="text-sm font-medium">{editing.id ? "Edit template" : "New template"}</div>
+            <Input
+              placeholder="Template name"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              disabled={isSaving}
+            />
+            <Textarea
+              placeholder="{{subject}} walking through {{location}} at {{time_of_day}}"
+              value={editing.body}
+              onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+              rows={3}
+              className="resize-none"
+              disabled={isSaving}
+            />
+            {editing.body && (
+              <p className="text-xs text-muted-foreground">
+                Variables: {extractTemplateVariables(editing.body).join(", ") || "none"}
+              </p>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              {editing.id && (
+                <Button type="button" variant="ghost" onClick={() => setEditing({ id: null, name: "", body: "" })}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                type="button"
+                onClick={handleSaveTemplate}
+                disabled={isSaving || !editing.name.trim() || !editing.body.trim()}
+              >
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing.id ? "Save changes" : "Save template"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { parseVideoSize } from "@/lib/generation-options"
+import {
+  getCropOverflow,
+  getReferenceDrawRect,
+  REFERENCE_FIT_MODES,
+  type ReferenceFitMode,
+} from "@/lib/reference-images"
+
+interface ReferenceCropEditorProps {
+  // Image being edited; the editor is open while set
+  image: File | null
+  // Target video size, e.g. 1280x720
+  size: string
+  onConfirm: (file: File) => void
+  onCancel: () => void
+}
+
+const PREVIEW_MAX_WIDTH = 480
+
+const FIT_MODE_LABELS: Record<ReferenceFitMode, string> = {
+  crop: "Crop",
+  fit: "Fit",
+  fill: "Stretch",
+}
+
+/**
+ * Resizes an image reference to the exact video size. Images that already
+ * match are accepted as they are.
+ */
+export function ReferenceCropEditor({ image, size, onConfirm, onCancel }: ReferenceCropEditorProps) {
+  const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null)
+  const [mode, setMode] = useState<ReferenceFitMode>("crop")
+  const [position, setPosition] = useState({ x: 0.5, y: 0.5 })
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const previewRef = useRef<HTMLCanvasElement>(null)
+  const target = parseVideoSize(size)
+
+  useEffect(() => {
+    setLoadedImage(null)
+    setMode("crop")
+    setPosition({ x: 0.5, y: 0.5 })
+    setError(null)
+    if (!image) return
+
+    const url = URL.createObjectURL(image)
+    const element = new Image()
+    element.onload = () => {
+      if (target && element.naturalWidth === target.width && element.naturalHeight === target.height) {
+        onConfirm(image)
+        return
+      }
+      setLoadedImage(element)
+    }
+    element.onerror = () => setError("Could not read this image")
+    element.src = url
+    return () => URL.revokeObjectURL(url)
+  }, [image, size]) // Only a new image or size starts a new edit
+
+  const draw = (canvas: HTMLCanvasElement, scale: number) => {
+    if (!loadedImage || !target) return
+    const context = canvas.getContext("2d")
+    if (!context) return
+
+    canvas.width = Math.round(target.width * scale)
+    canvas.height = Math.round(target.height * scale)
+    const rect = getReferenceDrawRect(
+      { width: loadedImage.naturalWidth, height: loadedImage.naturalHeight },
+      target,
+      mode,
+      position,
+    )
+
+    // Fit leaves bars around the image
+    context.fillStyle = "#000"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.imageSmoothingQuality = "high"
+    context.drawImage(loadedImage, rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale)
+  }
+
+  useEffect(() => {
+    if (previewRef.current && target) {
+      draw(previewRef.current, Math.min(1, PREVIEW_MAX_WIDTH / target.width))
+    }
+  })
+
+  const handleConfirm = async () => {
+    if (!image || !loadedImage || !target) return
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const canvas = document.createElement("canvas")
+      draw(canvas, 1)
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+      if (!blob) throw new Error("Could not export the resized image")
+
+      const baseName = image.name.replace(/\.[^.]+$/, "")
+      onConfirm(new File([blob], `${baseName}-${size}.png`, { type: "image/png" }))
+    } catch (err) {
+      console.error("[DEBUG] Error resizing reference:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const overflow = loadedImage && target
+    ? getCropOverflow({ width: loadedImage.naturalWidth, height: loadedImage.naturalHeight }, target)
+    : { x: false, y: false }
+
+  return (
+    <Dialog open={!!image && (!!loadedImage || !!error)} onOpenChange={(open) => { if (!open) onCancel() }}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Resize reference to {size}</DialogTitle>
+          <DialogDescription>
+            {loadedImage
+              ? `The image is ${loadedImage.naturalWidth}x${loadedImage.naturalHeight}; references must match the video size.`
+              : "Loading image..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadedImage && (
+          <div className="space-y-4">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => { if (value) setMode(value as ReferenceFitMode) }}
+            >
+              {REFERENCE_FIT_MODES.map((fitMode) => (
+                <ToggleGroupItem key={fitMode} value={fitMode} className="px-3">
+                  {FIT_MODE_LABELS[fitMode]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            <canvas ref={previewRef} className="w-full h-auto max-h-[50vh] object-contain rounded-md border bg-black" />
+
+            {mode === "crop" && overflow.x && (
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Horizontal position</span>
+                <Slider value={[position.x]} max={1} step={0.01} onValueChange={([x]) => setPosition({ ...position, x })} />
+              </div>
+            )}
+            {mode === "crop" && overflow.y && (
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Vertical position</span>
+                <Slider value={[position.y]} max={1} step={0.01} onValueChange={([y]) => setPosition({ ...position, y })} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!loadedImage || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Use image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { History, Loader2 } from "lucide-react"
+import { ReferenceThumbnail } from "@/components/reference-thumbnail"
+import type { VideoReference } from "@/types/video"
+
+interface ReferencePickerProps {
+  onSelect: (reference: VideoReference) => void
+  disabled?: boolean
+}
+
+/**
+ * Lets the user pick one of their previously uploaded input references
+ */
+export function ReferencePicker({ onSelect, disabled }: ReferencePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [references, setReferences] = useState<VideoReference[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchReferences = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/references")
+      if (response.ok) {
+        const data = await response.json()
+        setReferences(data.references)
+      } else {
+        console.error("Failed to fetch references:", response.status, response.statusText)
+      }
+    } catch (fetchError) {
+      console.error("Error fetching references:", fetchError)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) fetchReferences()
+  }, [isOpen, fetchReferences])
+
+  const handleSelect = (reference: VideoReference) => {
+    onSelect(reference)
+    setIsOpen(false)
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled} title="Use a previous reference">
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <div className="text-sm font-medium mb-2">Previous references</div>
+        {isLoading && references.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : references.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No references uploaded yet.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+            {references.map((reference) => (
+              <button
+                key={reference.id}
+                type="button"
+                onClick={() => handleSelect(reference)}
+                className="rounded hover:ring-2 hover:ring-primary focus-visible:ring-2 focus-visible:ring-primary outline-none"
+                title={reference.file_name}
+              >
+                <ReferenceThumbnail reference={reference} className="w-full aspect-square" />
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,20 @@
+import { cn } from "@/lib/utils"
+import type { VideoReference } from "@/types/video"
+
+interface ReferenceThumbnailProps {
+  reference: Pick<VideoReference, "url" | "file_name" | "content_type">
+  className?: string
+}
+
+/**
+ * Small preview of an input reference; video references show their first frame
+ */
+export function ReferenceThumbnail({ reference, className }: ReferenceThumbnailProps) {
+  const classes = cn("rounded border bg-muted object-cover", className)
+
+  if (reference.content_type.startsWith("video/")) {
+    return <video src={reference.url} muted playsInline preload="metadata" className={classes} title={reference.file_name} />
+  }
+
+  return <img src={reference.url} alt={reference.file_name} loading="lazy" className={classes} title={reference.file_name} />
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, Loader2 } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { cn } from "@/lib/utils"
+import { buildLineageTree, diffPrompts, type LineageNode, type LineageVideo } from "@/lib/lineage"
+import { useSignedUrlRefresh } from "@/hooks/use-signed-url-refresh"
+
+interface RemixLineageProps {
+  videoId: string | null
+  onClose: () => void
+}
+
+function PromptDiff({ parentPrompt, prompt }: { parentPrompt: string; prompt: string }) {
+  return (
+    <p className="text-sm text-pretty">
+      {diffPrompts(parentPrompt, prompt).map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.type === "added" && "bg-green-100 text-green-900 rounded-sm",
+            part.type === "removed" && "bg-red-100 text-red-900 line-through rounded-sm",
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+function LineageBranch({ node, parent, currentId }: { node: LineageNode; parent: LineageVideo | null; currentId: string }) {
+  const { video } = node
+
+  return (
+    <li className="space-y-3">
+      <div className={cn("flex gap-3 rounded-lg border p-2", video.id === currentId && "border-primary ring-1 ring-primary")}>
+        {video.status === "completed" && video.video_url ? (
+          <video src={video.video_url} muted playsInline preload="metadata" controls className="w-40 aspect-video rounded bg-black object-contain shrink-0" />
+        ) : (
+          <div className="w-40 aspect-video rounded border-2 border-dashed flex items-center justify-center text-xs text-muted-foreground shrink-0">
+            {video.status === "in_progress" ? <Loader2 className="h-4 w-4 animate-spin" /> : <AlertCircle className="h-4 w-4" />}
+          </div>
+        )}
+        <div className="space-y-1 min-w-0">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline">{parent ? "Remix" : "Original"}</Badge>
+            <Link href={`/videos/${video.id}`} className="hover:underline">
+              {formatDistanceToNow(new Date(video.created_at), { addSuffix: true })}
+            </Link>
+          </div>
+          {parent ? <PromptDiff parentPrompt={parent.prompt} prompt={video.prompt} /> : <p className="text-sm text-pretty">{video.prompt}</p>}
+        </div>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-6 border-l pl-4 space-y-3">
+          {node.children.map((child) => (
+            <LineageBranch key={child.video.id} node={child} parent={video} currentId={currentId} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Tree of an original video and its remixes; each remix prompt is diffed
+ * against the prompt of the video it was remixed from
+ */
+export function RemixLineageTree({ videoId }: { videoId: string }) {
+  const [tree, setTree] = useState<LineageNode | null>(null)
+  const [videos, setVideos] = useState<LineageVideo[]>([])
+  const [reloadCount, setReloadCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useSignedUrlRefresh(videos, () => setReloadCount((count) => count + 1))
+
+  useEffect(() => {
+    setTree(null)
+    setError(null)
+  }, [videoId])
+
+  useEffect(() => {
+    const fetchLineage = async () => {
+      try {
+        const response = await fetch(`/api/videos/${videoId}/lineage`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load remix lineage")
+        }
+        setVideos(data.videos)
+        setTree(buildLineageTree(data.videos, data.rootId))
+      } catch (err) {
+        console.error("[DEBUG] Error loading remix lineage:", err)
+        setError(err instanceof Error ? err.message : "An error occurred")
+      }
+    }
+
+    fetchLineage()
+  }, [videoId, reloadCount])
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>
+
+  if (!tree) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      <LineageBranch node={tree} parent={null} currentId={videoId} />
+    </ul>
+  )
+}
+
+export function RemixLineage({ videoId, onClose }: RemixLineageProps) {
+  return (
+    <Dialog open={!!videoId} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Remix lineage</DialogTitle>
+          <DialogDescription>
+            The original video and everything remixed from it. <span className="bg-green-100 text-green-900">Added</span> and{" "}
+            <span className="bg-red-100 text-red-900 line-through">removed</span> words are relative to the parent prompt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {videoId && <RemixLineageTree videoId={videoId} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
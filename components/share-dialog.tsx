@@ -0,0 +1,175 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Check, Copy, Eye, Loader2, Lock } from "lucide-react"
+import { SHARE_EXPIRY_OPTIONS, getSharePath, getShareStatus, type VideoShare } from "@/lib/shares"
+
+interface ShareDialogProps {
+  videoId: string
+  // Element that opens the dialog
+  children: React.ReactNode
+}
+
+const getShareUrl = (share: VideoShare) => `${window.location.origin}${getSharePath(share.token)}`
+
+/**
+ * Create, copy and revoke the public share links of a video
+ */
+export function ShareDialog({ videoId, children }: ShareDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [shares, setShares] = useState<VideoShare[]>([])
+  const [expiry, setExpiry] = useState("168")
+  const [password, setPassword] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [copiedShareId, setCopiedShareId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchShares = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/videos/${videoId}/shares`)
+      if (response.ok) {
+        const data = await response.json()
+        setShares(data.shares)
+      } else {
+        console.error("Failed to fetch share links:", response.status, response.statusText)
+      }
+    } catch (fetchError) {
+      console.error("Error fetching share links:", fetchError)
+    }
+  }, [videoId])
+
+  useEffect(() => {
+    if (isOpen) fetchShares()
+  }, [isOpen, fetchShares])
+
+  const handleCopy = async (share: VideoShare) => {
+    await navigator.clipboard.writeText(getShareUrl(share))
+    setCopiedShareId(share.id)
+    setTimeout(() => setCopiedShareId(null), 2000)
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/videos/${videoId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInHours: expiry === "never" ? null : Number(expiry), password: password || undefined }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create share link")
+      }
+
+      setPassword("")
+      setShares((prev) => [data.share, ...prev])
+      await handleCopy(data.share)
+    } catch (err) {
+      console.error("[DEBUG] Error creating share link:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (share: VideoShare) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/videos/${videoId}/shares/${share.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to revoke share link")
+      }
+      await fetchShares()
+    } catch (err) {
+      console.error("[DEBUG] Error revoking share link:", err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share video</DialogTitle>
+          <DialogDescription>Anyone with the link can watch this video and read its prompt, nothing else.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.hours === null ? "never" : String(option.hours)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="password"
+              placeholder="Password (optional)"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isCreating}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating} className="w-full">
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create and copy link
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {shares.length > 0 && (
+          <div className="space-y-2 border-t pt-4 max-h-64 overflow-y-auto">
+            {shares.map((share) => {
+              const status = getShareStatus(share)
+              return (
+                <div key={share.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-xs">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={status === "active" ? "default" : "outline"} className="capitalize">{status}</Badge>
+                      {share.has_password && <Lock className="h-3 w-3" />}
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <Eye className="h-3 w-3" />
+                        {share.view_count}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      Created {formatDistanceToNow(new Date(share.created_at), { addSuffix: true })}
+                      {share.expires_at && status === "active" && ` · expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  {status === "active" && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Copy link" onClick={() => handleCopy(share)}>
+                        {copiedShareId === share.id ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-red-600" onClick={() => handleRevoke(share)}>
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import { Loader2, Lock } from "lucide-react"
+
+interface SharePasswordFormProps {
+  token: string
+}
+
+export function SharePasswordForm({ token }: SharePasswordFormProps) {
+  const router = useRouter()
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/share/${token}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to unlock video")
+      }
+
+      // The page now finds the access cookie and shows the video
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-svh w-full items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center gap-2 font-semibold">
+              <Lock className="h-4 w-4" />
+              This video is password protected
+            </div>
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              disabled={isSubmitting}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!password || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              View video
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
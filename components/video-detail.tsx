@@ -0,0 +1,296 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { AppHeader } from "@/components/app-header"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { AlertCircle, AlertTriangle, ArrowLeft, Ban, Download, Loader2, Repeat, Share2, Shuffle, Trash2 } from "lucide-react"
+import { ReferenceThumbnail } from "@/components/reference-thumbnail"
+import { RemixLineageTree } from "@/components/remix-lineage"
+import { ShareDialog } from "@/components/share-dialog"
+import { useSignedUrlRefresh } from "@/hooks/use-signed-url-refresh"
+import { useVideoProgress } from "@/hooks/use-video-progress"
+import { canRegenerate, getRegenerateRequest } from "@/lib/generation-options"
+import { formatMediaMetadata, getMediaMismatches } from "@/lib/mp4-metadata"
+import type { Video } from "@/types/video"
+
+interface VideoDetailProps {
+  initialVideo: Video
+}
+
+const formatTimestamp = (timestamp?: string | null) => (timestamp ? format(new Date(timestamp), "PPpp") : "—")
+
+/**
+ * Full page view of one video with all of its parameters and actions
+ */
+export function VideoDetail({ initialVideo }: VideoDetailProps) {
+  const router = useRouter()
+  const [video, setVideo] = useState(initialVideo)
+  const [remixPrompt, setRemixPrompt] = useState(initialVideo.prompt)
+  const [isRemixOpen, setIsRemixOpen] = useState(false)
+  const [pendingAction, setPendingAction] = useState<"remix" | "regenerate" | "delete" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // The server page signs the video URL; re-render it before the URL expires
+  useSignedUrlRefresh([video], () => router.refresh())
+  useEffect(() => setVideo(initialVideo), [initialVideo])
+
+  const { getVideoProgress } = useVideoProgress([video], (updatedVideo) => setVideo((prev) => ({ ...prev, ...updatedVideo })))
+  const progressData = getVideoProgress(video.id)
+  const currentStatus = progressData?.status || video.status
+  const errorMessage = progressData?.error_message || video.error_message
+  const videoUrl = video.video_url || progressData?.video_url
+
+  // Generation and remix open the new video; delete returns to the list
+  const runAction = async (action: "remix" | "regenerate" | "delete", request: () => Promise<Response>) => {
+    setPendingAction(action)
+    setError(null)
+
+    try {
+      const response = await request()
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} video`)
+      }
+
+      router.push(action === "delete" ? "/" : `/videos/${data.video.id}`)
+    } catch (err) {
+      console.error(`[UI] Error running ${action}:`, err)
+      setError(err instanceof Error ? err.message : "An error occurred")
+      setPendingAction(null)
+    }
+  }
+
+  const handleRemix = () => runAction("remix", () =>
+    fetch("/api/remix-video", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: remixPrompt, model: video.model, input_video_id: video.video_id, input_video_record_id: video.id }),
+    }))
+
+  const handleRegenerate = () => runAction("regenerate", () => {
+    const { endpoint, body } = getRegenerateRequest(video)
+    return fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  })
+
+  const handleDelete = () => runAction("delete", () => fetch(`/api/delete-video?id=${video.id}`, { method: "DELETE" }))
+
+  const mediaMismatches = getMediaMismatches(video.media_metadata, video)
+
+  const parameters: [string, React.ReactNode][] = [
+    ["Status", <Badge key="status" variant="outline" className="capitalize">{currentStatus?.replace("_", " ")}</Badge>],
+    ["Type", video.creation_type === "remix" ? "Remix" : "Standard"],
+    ["Model", video.model ?? "—"],
+    ["Duration", video.seconds ? `${video.seconds}s` : "—"],
+    ["Size", video.size ?? "—"],
+    ["Provider", video.provider ?? "—"],
+    ["Provider job", <code key="job" className="text-xs break-all">{video.video_id ?? "—"}</code>],
+    ...(video.variant_group_id ? [["Take", String((video.variant_index ?? 0) + 1)] as [string, React.ReactNode]] : []),
+    ...(video.sequence_index != null ? [["Sequence", (
+      <span key="sequence">
+        Part {video.sequence_index + 1}
+        {video.previous_video_id && (
+          <> · <Link href={`/videos/${video.previous_video_id}`} className="underline underline-offset-2">previous clip</Link></>
+        )}
+      </span>
+    )] as [string, React.ReactNode]] : []),
+    ["Created", formatTimestamp(video.created_at)],
+    ["Updated", formatTimestamp(progressData?.updated_at ?? video.updated_at)],
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
+      <AppHeader onVideoFetched={(fetched) => router.push(`/videos/${fetched.id}`)} />
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Your Creations
+          </Link>
+        </Button>
+
+        <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+          <div className="space-y-4">
+            {currentStatus === "completed" && videoUrl ? (
+              <video src={videoUrl} poster={video.thumbnail_url ?? undefined} controls playsInline className="w-full max-h-[70vh] rounded-lg bg-black object-contain" />
+            ) : (
+              <div className="w-full aspect-video rounded-lg border-2 border-dashed flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                {currentStatus === "in_progress" ? (
+                  <>
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                    <span className="text-sm">Generating{progressData?.progress != null && ` · ${progressData.progress}%`}</span>
+                    {progressData?.progress != null && <Progress value={progressData.progress} className="w-48" />}
+                  </>
+                ) : currentStatus === "cancelled" ? (
+                  <>
+                    <Ban className="h-8 w-8" />
+                    <span className="text-sm">Cancelled</span>
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="h-8 w-8 text-destructive" />
+                    <span className="text-sm">Generation failed</span>
+                  </>
+                )}
+              </div>
+            )}
+
+            <p className="whitespace-pre-wrap text-pretty">{video.prompt}</p>
+
+            {errorMessage && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error details</AlertTitle>
+                <AlertDescription className="whitespace-pre-wrap break-words">{errorMessage}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Dialog open={isRemixOpen} onOpenChange={setIsRemixOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" disabled={currentStatus !== "completed" || !!pendingAction}>
+                    <Shuffle className="h-4 w-4 mr-1" />
+                    Remix
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Remix video</DialogTitle>
+                    <DialogDescription>Describe the changes to make to this video.</DialogDescription>
+                  </DialogHeader>
+                  <Textarea value={remixPrompt} onChange={(e) => setRemixPrompt(e.target.value)} rows={4} className="resize-none" />
+                  <DialogFooter>
+                    <Button onClick={handleRemix} disabled={!remixPrompt.trim() || !!pendingAction}>
+                      {pendingAction === "remix" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Remix
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+
+              {videoUrl && (
+                <Button asChild variant="outline">
+                  <a href={videoUrl} download target="_blank" rel="noopener noreferrer">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download
+                  </a>
+                </Button>
+              )}
+
+              {currentStatus === "completed" && (
+                <ShareDialog videoId={video.id}>
+                  <Button variant="outline">
+                    <Share2 className="h-4 w-4 mr-1" />
+                    Share
+                  </Button>
+                </ShareDialog>
+              )}
+
+              <Button
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={!canRegenerate(video) || !!pendingAction}
+                title={canRegenerate(video) ? "Regenerate with same settings" : "The input reference of this video was not stored"}
+              >
+                {pendingAction === "regenerate" ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Repeat className="h-4 w-4 mr-1" />}
+                Regenerate
+              </Button>
+
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="text-red-600 hover:bg-red-100" disabled={!!pendingAction}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Delete Video</DialogTitle>
+                    <DialogDescription>
+                      Are you sure you want to delete this video? This action cannot be undone.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter>
+                    <Button variant="destructive" onClick={handleDelete} disabled={!!pendingAction}>
+                      {pendingAction === "delete" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Delete Video
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <Card>
+            <CardContent className="space-y-4">
+              <h2 className="font-semibold">Generation parameters</h2>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                {parameters.map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="min-w-0">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {video.media_metadata && (
+                <div className="space-y-2">
+                  <h3 className="text-sm text-muted-foreground">Video file</h3>
+                  {mediaMismatches.length > 0 && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4 text-amber-500" />
+                      <AlertTitle>Does not match the request</AlertTitle>
+                      <AlertDescription>
+                        {mediaMismatches.map((mismatch) => (
+                          <div key={mismatch}>{mismatch}</div>
+                        ))}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                    {formatMediaMetadata(video.media_metadata).map(([label, value]) => (
+                      <div key={label} className="contents">
+                        <dt className="text-muted-foreground">{label}</dt>
+                        <dd className="min-w-0">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
+              {video.input_reference && (
+                <div className="space-y-2">
+                  <h3 className="text-sm text-muted-foreground">Input reference</h3>
+                  <a href={video.input_reference.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm hover:underline">
+                    <ReferenceThumbnail reference={video.input_reference} className="h-16 w-16" />
+                    <span className="truncate">{video.input_reference.file_name}</span>
+                  </a>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold">Remix lineage</h2>
+          <RemixLineageTree videoId={video.id} />
+        </div>
+      </main>
+    </div>
+  )
+}
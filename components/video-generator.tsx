@@ -5,9 +5,17 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Loader2, Sparkles, X, Shuffle, Upload, FileImage, FileVideo } from "lucide-react"
-import type { Video } from "@/types/video"
+import { Loader2, Sparkles, X, Shuffle, Upload, FileImage, FileVideo, Crop, StepForward } from "lucide-react"
+import type { Video, VideoReference } from "@/types/video"
+import { VIDEO_MODELS, VIDEO_SECONDS, formatCost, getGenerationSettings, getModelSizes } from "@/lib/generation-options"
+import { SWEEP_LIMITS, planSweep } from "@/lib/experiments"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { PromptTemplatePicker } from "@/components/prompt-template-picker"
+import { ReferencePicker } from "@/components/reference-picker"
+import { ReferenceThumbnail } from "@/components/reference-thumbnail"
+import { ReferenceCropEditor } from "@/components/reference-crop-editor"
 
 interface VideoGeneratorProps {
   onVideoGenerated: (video: Video) => void
@@ -17,18 +25,36 @@ interface VideoGeneratorProps {
     video: Video | null
   }
   onExitRemix?: () => void
+  // Continue a video from its last frame, stored as the reference
+  extendMode?: { video: Video; reference: VideoReference } | null
+  onExitExtend?: () => void
+  // Called when a template was expanded into a batch of jobs
+  onBatchCreated?: () => void
 }
 
-export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, onExitRemix }: VideoGeneratorProps) {
+export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, onExitRemix, extendMode, onExitExtend, onBatchCreated }: VideoGeneratorProps) {
   const [prompt, setPrompt] = useState("")
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [fileError, setFileError] = useState<string | null>(null)
+  // Image references are resized to the video size; the original is kept so
+  // it can be adjusted again when the size changes
+  const [editingImage, setEditingImage] = useState<File | null>(null)
+  const [referenceImage, setReferenceImage] = useState<{ original: File; size: string } | null>(null)
+  // A previously uploaded reference, used instead of a new file
+  const [selectedReference, setSelectedReference] = useState<VideoReference | null>(null)
 
   const [selectedModel, setSelectedModel] = useState("sora-2")
   const [duration, setDuration] = useState("12")
   const [size, setSize] = useState("720x1280")
+  const [variants, setVariants] = useState("1")
+
+  // Sweep mode generates the prompt with every combination of the selected parameters
+  const [sweepMode, setSweepMode] = useState(false)
+  const [sweepModels, setSweepModels] = useState<string[]>([...VIDEO_MODELS])
+  const [sweepSeconds, setSweepSeconds] = useState<string[]>(["4"])
+  const [sweepSizes, setSweepSizes] = useState<string[]>(["1280x720"])
 
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -39,8 +65,34 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
     }
   }, [externalPrompt])
 
-  const availableSizes =
-    selectedModel === "sora-2-pro" ? ["1280x720", "720x1280", "1024x1792", "1792x1024"] : ["1280x720", "720x1280"]
+  // Pre-fill the settings of the extended video with its last frame as reference
+  useEffect(() => {
+    if (!extendMode) return
+    const settings = getGenerationSettings(extendMode.video)
+    setSelectedFile(null)
+    setReferenceImage(null)
+    setFileError(null)
+    setSweepMode(false)
+    setPrompt(settings.prompt)
+    setSelectedModel(settings.model)
+    if (settings.seconds) setDuration(settings.seconds)
+    if (settings.size) setSize(settings.size)
+    setSelectedReference(extendMode.reference)
+  }, [extendMode])
+
+  // The frame matches the size of the extended video, so the size stays fixed
+  const isExtending = !!extendMode && selectedReference?.id === extendMode.reference.id
+
+  const availableSizes = getModelSizes(selectedModel)
+  const allSizes = getModelSizes("sora-2-pro")
+  const isSweep = sweepMode && !remixMode?.isActive
+  const sweepPlan = isSweep ? planSweep({ models: sweepModels, seconds: sweepSeconds, sizes: sweepSizes }) : null
+
+  useEffect(() => {
+    if (referenceImage && referenceImage.size !== size) {
+      setEditingImage(referenceImage.original)
+    }
+  }, [size, referenceImage])
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
@@ -64,12 +116,43 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
       return
     }
 
-    setSelectedFile(file)
+    setSelectedReference(null)
     setFileError(null)
+
+    if (validImageTypes.includes(file.type)) {
+      setEditingImage(file)
+    } else {
+      setSelectedFile(file)
+      setReferenceImage(null)
+    }
+  }
+
+  const handleImageResized = (file: File) => {
+    if (!editingImage) return
+    setSelectedFile(file)
+    setReferenceImage({ original: editingImage, size })
+    setEditingImage(null)
+  }
+
+  const handleImageEditCancel = () => {
+    setEditingImage(null)
+    // Without a resized image for the current size, the reference is dropped
+    if (referenceImage && referenceImage.size !== size) {
+      handleRemoveFile()
+    } else if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
+  }
+
+  const handleSelectReference = (reference: VideoReference) => {
+    handleRemoveFile()
+    setSelectedReference(reference)
   }
 
   const handleRemoveFile = () => {
     setSelectedFile(null)
+    setReferenceImage(null)
+    setSelectedReference(null)
     setFileError(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ""
@@ -93,13 +176,22 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
 
       let response: Response
 
-      if (selectedFile && !remixMode?.isActive) {
+      if (isSweep) {
+        response = await fetch("/api/experiments", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ prompt, models: sweepModels, seconds: sweepSeconds, sizes: sweepSizes }),
+        })
+      } else if (selectedFile && !remixMode?.isActive) {
         // Send as FormData when file is selected
         const formData = new FormData()
         formData.append("prompt", prompt)
         formData.append("model", selectedModel)
         formData.append("seconds", duration)
         formData.append("size", size)
+        formData.append("variants", variants)
         formData.append("input_reference", selectedFile)
 
         response = await fetch(apiEndpoint, {
@@ -113,9 +205,14 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
           model: selectedModel,
           seconds: duration,
           size: size,
+          // Variants and references are only available for new generations
+          ...(!remixMode?.isActive && { variants: Number(variants) }),
+          ...(!remixMode?.isActive && selectedReference && { input_reference_id: selectedReference.id }),
+          ...(isExtending && { previous_video_id: extendMode.video.id }),
           // Add remix parameters if in remix mode
           ...(remixMode?.isActive && remixMode.video && {
-            input_video_id: remixMode.video.video_id
+            input_video_id: remixMode.video.video_id,
+            input_video_record_id: remixMode.video.id
           })
         }
 
@@ -134,13 +231,21 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
       }
 
       const data = await response.json()
-      onVideoGenerated(data.video)
+      if (data.warning) {
+        console.warn("[DEBUG] Video generation warning:", data.warning)
+      }
+      // Add variants in reverse so the first take ends up first in the list
+      const generatedVideos: Video[] = data.videos || [data.video]
+      generatedVideos.slice().reverse().forEach(onVideoGenerated)
       setPrompt("")
 
       // Exit remix mode after successful generation
       if (remixMode?.isActive && onExitRemix) {
         onExitRemix()
       }
+      if (extendMode && onExitExtend) {
+        onExitExtend()
+      }
     } catch (err) {
       console.error("[DEBUG] Error generating video:", err)
       setError(err instanceof Error ? err.message : "An error occurred")
@@ -198,6 +303,38 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
               </CardContent>
             </Card>
           )}
+          {extendMode && (
+            <Card className="border-2 mb-4 p-0 border-green-200 bg-gradient-to-r from-green-50 to-emerald-50">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <StepForward className="h-5 w-5 text-green-600" />
+                      <span className="font-semibold text-green-800">Extend Mode</span>
+                    </div>
+                    <div className="h-4 w-px bg-green-300" />
+                    <div className="text-sm text-green-700">
+                      {isExtending ? "Continuing" : "Reference removed, not continuing"}: <span className="font-medium">
+                        {extendMode.video.prompt.length > 60
+                          ? extendMode.video.prompt.substring(0, 60) + "..."
+                          : extendMode.video.prompt
+                        }
+                      </span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onExitExtend}
+                    className="h-8 w-8 p-0 hover:bg-green-100"
+                    title="Exit extend mode"
+                  >
+                    <X className="h-4 w-4 text-green-600" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
           <div className="space-y-4">
             <div className="space-y-2">
 
@@ -212,12 +349,63 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
               />
             </div>
 
+            {!remixMode?.isActive && (
+              <PromptTemplatePicker
+                currentPrompt={prompt}
+                onPromptChange={setPrompt}
+                generationOptions={{ model: selectedModel, seconds: duration, size }}
+                onBatchCreated={onBatchCreated}
+                disabled={isGenerating}
+              />
+            )}
+
             {error && <p className="text-sm text-destructive">{error}</p>}
 
             {/* File Upload Section - Only show when not in remix mode */}
 
 
-            {!remixMode?.isActive && (
+            {!remixMode?.isActive && !isExtending && (
+              <div className="flex items-center gap-2">
+                <Switch id="sweep-mode" checked={sweepMode} onCheckedChange={setSweepMode} disabled={isGenerating} />
+                <label htmlFor="sweep-mode" className="text-sm">Sweep parameters</label>
+              </div>
+            )}
+
+            {isSweep && sweepPlan && (
+              <div className="space-y-3">
+                <div className="flex flex-row flex-wrap gap-3">
+                  <ToggleGroup type="multiple" variant="outline" size="sm" value={sweepModels} onValueChange={setSweepModels}>
+                    {VIDEO_MODELS.map((model) => (
+                      <ToggleGroupItem key={model} value={model} className="px-3">
+                        {model === "sora-2-pro" ? "Sora 2 Pro" : "Sora 2"}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <ToggleGroup type="multiple" variant="outline" size="sm" value={sweepSeconds} onValueChange={setSweepSeconds}>
+                    {VIDEO_SECONDS.map((seconds) => (
+                      <ToggleGroupItem key={seconds} value={seconds} className="px-3">
+                        {seconds}s
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <ToggleGroup type="multiple" variant="outline" size="sm" value={sweepSizes} onValueChange={setSweepSizes}>
+                    {allSizes.map((sizeOption) => (
+                      <ToggleGroupItem key={sizeOption} value={sizeOption} className="px-3">
+                        {sizeOption}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {sweepPlan.runs.length} run(s) · estimated cost {formatCost(sweepPlan.estimatedCost)}
+                  {sweepPlan.skipped.length > 0 && ` · ${sweepPlan.skipped.length} unsupported combination(s) skipped`}
+                  {` · limit ${SWEEP_LIMITS.maxRuns} runs / ${formatCost(SWEEP_LIMITS.maxEstimatedCost)}`}
+                </p>
+                {sweepPlan.error && <p className="text-sm text-destructive">{sweepPlan.error}</p>}
+              </div>
+            )}
+
+            {!remixMode?.isActive && !isSweep && (
               <div className="flex flex-row flex-wrap gap-3 ">
 
                 <div className="flex items-center gap-2">
@@ -241,10 +429,10 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent>
-                      {selectedFile ? "Change File" : "Add image or video reference that guides generation. The referece file must be of the same size as the video you are generating."}
+                      {selectedFile ? "Change File" : "Add image or video reference that guides generation. Images are resized to the video size; video references must already match it."}
                     </TooltipContent>
                   </Tooltip>
-
+                  <ReferencePicker onSelect={handleSelectReference} disabled={isGenerating} />
 
                   {selectedFile && (
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -254,6 +442,33 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
                         <FileVideo className="h-4 w-4" />
                       )}
                       <span className="truncate max-w-[200px]">{selectedFile.name}</span>
+                      {referenceImage && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingImage(referenceImage.original)}
+                          className="h-6 w-6 p-0"
+                          title="Adjust crop"
+                        >
+                          <Crop className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleRemoveFile}
+                        className="h-6 w-6 p-0"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  {selectedReference && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <ReferenceThumbnail reference={selectedReference} className="h-8 w-8" />
+                      <span className="truncate max-w-[200px]">{selectedReference.file_name}</span>
                       <Button
                         type="button"
                         variant="ghost"
@@ -267,6 +482,12 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
                   )}
                 </div>
                 {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+                <ReferenceCropEditor
+                  image={editingImage}
+                  size={size}
+                  onConfirm={handleImageResized}
+                  onCancel={handleImageEditCancel}
+                />
 
                 <div className="space-y-2">
 
@@ -283,7 +504,7 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="sora-2">Sora 2</SelectItem>
+                      <SelectItem value="sora-2" disabled={isExtending && !getModelSizes("sora-2").includes(size)}>Sora 2</SelectItem>
                       <SelectItem value="sora-2-pro">Sora 2 Pro</SelectItem>
                     </SelectContent>
                   </Select>
@@ -305,7 +526,7 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
 
                 <div className="space-y-2">
 
-                  <Select value={size} onValueChange={setSize}>
+                  <Select value={size} onValueChange={setSize} disabled={isExtending}>
                     <SelectTrigger id="size">
                       <SelectValue />
                     </SelectTrigger>
@@ -319,18 +540,33 @@ export function VideoGenerator({ onVideoGenerated, externalPrompt, remixMode, on
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+
+                  <Select value={variants} onValueChange={setVariants}>
+                    <SelectTrigger id="variants">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 variant</SelectItem>
+                      <SelectItem value="2">2 variants</SelectItem>
+                      <SelectItem value="3">3 variants</SelectItem>
+                      <SelectItem value="4">4 variants</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
               </div>
             )}
-            <Button onClick={handleGenerate} disabled={isGenerating || !prompt.trim()} className="w-full" size="lg">
+            <Button onClick={handleGenerate} disabled={isGenerating || !prompt.trim() || !!sweepPlan?.error} className="w-full" size="lg">
               {isGenerating ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {remixMode?.isActive ? "Remixing video..." : "Generating video..."}
+                  {remixMode?.isActive ? "Remixing video..." : isSweep ? "Starting sweep..." : "Generating video..."}
                 </>
               ) : (
                 <>
 
-                  {remixMode?.isActive ? "Remix Video" : "Generate Video"}
+                  {remixMode?.isActive ? "Remix Video" : isSweep ? `Run Sweep (${sweepPlan?.runs.length ?? 0} videos)` : "Generate Video"}
                 </>
               )}
             </Button>
@@ -6,13 +6,21 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import type { Video } from "@/types/video"
+import type { Video, VideoReference } from "@/types/video"
 import { formatDistanceToNow } from "date-fns"
-import { Loader2, AlertCircle, CheckCircle2, Clock, Copy, Trash2, Shuffle, Sparkles, Search, Filter, X, RefreshCw } from "lucide-react"
+import { Loader2, AlertCircle, AlertTriangle, CheckCircle2, Clock, Copy, Trash2, Shuffle, Sparkles, Search, Filter, X, RefreshCw, Ban, Columns3, Repeat, GitBranch, Maximize2, Share2, StepForward } from "lucide-react"
 import { useVideoProgress } from "@/hooks/use-video-progress"
+import { ReferenceThumbnail } from "@/components/reference-thumbnail"
+import { ExperimentComparison } from "@/components/experiment-comparison"
+import { RemixLineage } from "@/components/remix-lineage"
+import { ShareDialog } from "@/components/share-dialog"
+import { VideoThumbnailPlayer } from "@/components/video-thumbnail-player"
+import { canRegenerate, getRegenerateRequest, getSizeOrientation } from "@/lib/generation-options"
+import { formatMediaMetadata, getMediaMismatches } from "@/lib/mp4-metadata"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { useState, useMemo } from "react"
+import Link from "next/link"
 interface VideoGridProps {
   videos: Video[]
   isLoading: boolean
@@ -20,15 +28,24 @@ interface VideoGridProps {
   onPromptReuse: (prompt: string) => void
   onVideoDelete: (videoId: string) => void
   onVideoRemix: (video: Video) => void
+  onVideosGenerated: (videos: Video[]) => void
+  onVideoExtend: (extension: { video: Video; reference: VideoReference }) => void
 }
 
-export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onVideoDelete, onVideoRemix }: VideoGridProps) {
+export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onVideoDelete, onVideoRemix, onVideosGenerated, onVideoExtend }: VideoGridProps) {
   const { getVideoProgress, isPolling, startPolling, stopPolling, manualRefresh } = useVideoProgress(videos, onVideoUpdate)
   const [deletingVideoId, setDeletingVideoId] = useState<string | null>(null)
   const [checkingStatusVideoId, setCheckingStatusVideoId] = useState<string | null>(null)
+  const [cancellingVideoId, setCancellingVideoId] = useState<string | null>(null)
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({})
+  const [comparedExperimentId, setComparedExperimentId] = useState<string | null>(null)
+  const [lineageVideoId, setLineageVideoId] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState<string>("")
   const [creationTypeFilter, setCreationTypeFilter] = useState<string>("all")
   const [modelFilter, setModelFilter] = useState<string>("all")
+  const [orientationFilter, setOrientationFilter] = useState<string>("all")
+  const [regeneratingVideoId, setRegeneratingVideoId] = useState<string | null>(null)
+  const [extendingVideoId, setExtendingVideoId] = useState<string | null>(null)
 
   // Get unique values for filter options
   const uniqueCreationTypes = useMemo(() => {
@@ -41,6 +58,11 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
     return Array.from(new Set(models))
   }, [videos])
 
+  // Videos that were remixed; together with remixes they have a lineage to show
+  const remixedVideoIds = useMemo(() => {
+    return new Set(videos.map(v => v.parent_video_id).filter((id): id is string => Boolean(id)))
+  }, [videos])
+
   // Filter videos based on search query, creation type, and model
   const filteredVideos = useMemo(() => {
     return videos.filter(video => {
@@ -56,17 +78,45 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
       const matchesModel = modelFilter === "all" ||
         video.model === modelFilter
 
-      return matchesSearch && matchesCreationType && matchesModel
+      // Aspect ratio filter (videos created before sizes were stored never match)
+      const matchesOrientation = orientationFilter === "all" ||
+        getSizeOrientation(video.size) === orientationFilter
+
+      return matchesSearch && matchesCreationType && matchesModel && matchesOrientation
+    })
+  }, [videos, searchQuery, creationTypeFilter, modelFilter, orientationFilter])
+
+  // Variants generated from one request are shown as a single card with a take switcher
+  const videoGroups = useMemo(() => {
+    const groups: Video[][] = []
+    const groupsById = new Map<string, Video[]>()
+
+    filteredVideos.forEach(video => {
+      if (!video.variant_group_id) {
+        groups.push([video])
+        return
+      }
+      const group = groupsById.get(video.variant_group_id)
+      if (group) {
+        group.push(video)
+      } else {
+        const newGroup = [video]
+        groupsById.set(video.variant_group_id, newGroup)
+        groups.push(newGroup)
+      }
     })
-  }, [videos, searchQuery, creationTypeFilter, modelFilter])
+
+    return groups.map(group => group.sort((a, b) => (a.variant_index ?? 0) - (b.variant_index ?? 0)))
+  }, [filteredVideos])
 
   const clearAllFilters = () => {
     setSearchQuery("")
     setCreationTypeFilter("all")
     setModelFilter("all")
+    setOrientationFilter("all")
   }
 
-  const hasActiveFilters = searchQuery.trim() || creationTypeFilter !== "all" || modelFilter !== "all"
+  const hasActiveFilters = searchQuery.trim() || creationTypeFilter !== "all" || modelFilter !== "all" || orientationFilter !== "all"
 
   const handleDeleteVideo = async (videoId: string) => {
     setDeletingVideoId(videoId)
@@ -136,6 +186,96 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
     }
   }
 
+  const handleCancelVideo = async (video: Video) => {
+    setCancellingVideoId(video.id)
+
+    try {
+      console.log(`[UI] Cancelling video: ${video.id}`)
+      const response = await fetch(`/api/cancel-video`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ videoId: video.id }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to cancel video")
+      }
+
+      const data = await response.json()
+      console.log(`[UI] Cancel result:`, data)
+
+      onVideoUpdate({ ...video, status: "cancelled" })
+
+    } catch (error) {
+      console.error("[UI] Error cancelling video:", error)
+      // You could add a toast notification here for better UX
+    } finally {
+      setCancellingVideoId(null)
+    }
+  }
+
+  // Submit the video's stored request again
+  const handleRegenerateVideo = async (video: Video) => {
+    setRegeneratingVideoId(video.id)
+
+    try {
+      const { endpoint, body } = getRegenerateRequest(video)
+      console.log(`[UI] Regenerating video with the same settings: ${video.id}`)
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to regenerate video")
+      }
+
+      const data = await response.json()
+      onVideosGenerated(data.videos || [data.video])
+
+    } catch (error) {
+      console.error("[UI] Error regenerating video:", error)
+      // You could add a toast notification here for better UX
+    } finally {
+      setRegeneratingVideoId(null)
+    }
+  }
+
+  // Extract the last frame as input reference for the next clip of the sequence
+  const handleExtendVideo = async (video: Video) => {
+    setExtendingVideoId(video.id)
+
+    try {
+      console.log(`[UI] Extracting the last frame to extend video: ${video.id}`)
+
+      const response = await fetch(`/api/videos/${video.id}/last-frame`, {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to extract the last frame")
+      }
+
+      const data = await response.json()
+      onVideoExtend({ video, reference: data.reference })
+
+    } catch (error) {
+      console.error("[UI] Error extending video:", error)
+      // You could add a toast notification here for better UX
+    } finally {
+      setExtendingVideoId(null)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -210,6 +350,17 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
               </SelectContent>
             </Select>
 
+            <Select value={orientationFilter} onValueChange={setOrientationFilter}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Aspect Ratio" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Sizes</SelectItem>
+                <SelectItem value="landscape">Landscape</SelectItem>
+                <SelectItem value="portrait">Portrait</SelectItem>
+              </SelectContent>
+            </Select>
+
             {hasActiveFilters && (
               <Button
                 variant="outline"
@@ -295,6 +446,17 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
             </SelectContent>
           </Select>
 
+          <Select value={orientationFilter} onValueChange={setOrientationFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Aspect Ratio" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sizes</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+              <SelectItem value="portrait">Portrait</SelectItem>
+            </SelectContent>
+          </Select>
+
           {/* Polling Controls */}
           <div className="flex items-center gap-2">
             {/* {isPolling ? (
@@ -336,16 +498,19 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredVideos.map((video) => {
+        {videoGroups.map((group) => {
+          const groupKey = group[0].variant_group_id || group[0].id
+          const video = group.find(v => v.id === selectedVariants[groupKey]) || group[0]
           const progressData = getVideoProgress(video.id)
 
           // Use real-time progress data if available
           const currentStatus = progressData?.status || video.status
           const progressPercentage = progressData?.progress || null
           const errorMessage = progressData?.error_message || video.error_message
+          const mediaMismatches = getMediaMismatches(video.media_metadata, video)
 
           return (
-            <Card key={video.id} className="overflow-hidden hover:shadow-lg transition-shadow">
+            <Card key={groupKey} className="overflow-hidden hover:shadow-lg transition-shadow">
               <CardContent className="p-4">
                 {currentStatus === "in_progress" ? (
                   <div className="relative w-full aspect-video rounded-lg mb-3 bg-gradient-to-br from-blue-50 to-indigo-50 border-2 border-dashed border-blue-200 flex items-center justify-center">
@@ -385,9 +550,9 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                         />
                       </div>
 
-                      {progressData?.openai_status && progressData.openai_status !== currentStatus && (
+                      {progressData?.provider_status && progressData.provider_status !== currentStatus && (
                         <div className="text-xs text-blue-500 font-mono bg-blue-100 px-2 py-1 rounded">
-                          OpenAI: {progressData.openai_status}
+                          Provider: {progressData.provider_status}
                         </div>
                       )}
                     </div>
@@ -408,15 +573,21 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
 
                     </div>
                   </div>
-                ) : currentStatus === "completed" && (progressData?.video_url || video.video_url) ? (
+                ) : currentStatus === "cancelled" ? (
+                  <div className="relative w-full aspect-video rounded-lg mb-3 bg-gradient-to-br from-gray-50 to-slate-50 border-2 border-dashed border-gray-200 flex items-center justify-center">
+                    <div className="flex flex-col items-center gap-2">
+                      <Ban className="h-8 w-8 text-gray-400" />
+                      <div className="text-sm font-medium text-gray-600">Generation Cancelled</div>
+                    </div>
+                  </div>
+                ) : currentStatus === "completed" && (video.video_url || progressData?.video_url) ? (
                   <div className="relative">
-                    <video
-                      src={progressData?.video_url || video.video_url}
-                      controls
+                    <VideoThumbnailPlayer
+                      videoUrl={video.video_url || progressData?.video_url || ""}
+                      thumbnailUrl={video.thumbnail_url}
+                      previewUrl={video.preview_url}
                       className="w-full aspect-video rounded-lg mb-3 bg-muted shadow-sm"
-
                     />
-
                   </div>
                 ) : (
                   <div className="relative w-full aspect-video rounded-lg mb-3 bg-gradient-to-br from-gray-50 to-slate-50 border-2 border-dashed border-gray-200 flex items-center justify-center">
@@ -427,9 +598,37 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                   </div>
                 )}
 
+                {group.length > 1 && (
+                  <div className="flex items-center gap-1 mb-3">
+                    <span className="text-xs text-muted-foreground mr-1">Takes</span>
+                    {group.map((variant, index) => (
+                      <Button
+                        key={variant.id}
+                        variant={variant.id === video.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setSelectedVariants(prev => ({ ...prev, [groupKey]: variant.id }))}
+                        className="h-6 min-w-6 px-2 text-xs"
+                        title={`Take ${index + 1} (${getVideoProgress(variant.id)?.status || variant.status})`}
+                      >
+                        {index + 1}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <div className="flex items-start justify-between gap-2">
                     <p className="text-sm font-medium line-clamp-2 text-pretty flex-1">{video.prompt}</p>
+                    {video.input_reference && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <a href={video.input_reference.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                            <ReferenceThumbnail reference={video.input_reference} className="h-10 w-10" />
+                          </a>
+                        </TooltipTrigger>
+                        <TooltipContent>Input reference: {video.input_reference.file_name}</TooltipContent>
+                      </Tooltip>
+                    )}
 
                   </div>
 
@@ -441,6 +640,32 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                         <span className="capitalize">{video.model.replace("-", " ")}</span>
                       </>
                     )}
+                    {(video.seconds || video.size) && (
+                      <>
+                        <span>•</span>
+                        {video.media_metadata ? (
+                          <Tooltip>
+                            <TooltipTrigger className="flex items-center gap-1">
+                              {mediaMismatches.length > 0 && <AlertTriangle className="h-3 w-3 text-amber-500" />}
+                              {[video.seconds && `${video.seconds}s`, video.size].filter(Boolean).join(" · ")}
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {mediaMismatches.map((mismatch) => (
+                                <div key={mismatch} className="font-medium">{mismatch}</div>
+                              ))}
+                              {formatMediaMetadata(video.media_metadata).map(([label, value]) => (
+                                <div key={label}>{label}: {value}</div>
+                              ))}
+                              {video.provider && <div>Generated with {video.provider}</div>}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <span title={video.provider ? `Generated with ${video.provider}` : undefined}>
+                            {[video.seconds && `${video.seconds}s`, video.size].filter(Boolean).join(" · ")}
+                          </span>
+                        )}
+                      </>
+                    )}
                     {video.creation_type && (
                       <div className="flex items-center gap-2 shrink-0">
                         <span>•</span>
@@ -454,6 +679,14 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                       //   <span className="capitalize">{video.creation_type.replace("-", " ")}</span>
                       // </>
                     )}
+                    {video.sequence_index != null && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span>•</span>
+                        <Badge variant="outline" title={video.previous_video_id ? "Continues the previous clip from its last frame" : "First clip of a sequence"}>
+                          Part {video.sequence_index + 1}
+                        </Badge>
+                      </div>
+                    )}
 
 
                   </div>
@@ -481,6 +714,52 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                         </Tooltip>
                       </Button>
                     )}
+                    {currentStatus === "in_progress" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancelVideo(video)}
+                        className="h-8 w-8 p-0 hover:bg-gray-100"
+                        title="Cancel generation"
+                        disabled={cancellingVideoId === video.id}
+                      >
+                        <Tooltip>
+                          <TooltipTrigger>
+                            {cancellingVideoId === video.id ? (
+                              <Loader2 className="h-3 w-3 text-gray-600 animate-spin" />
+                            ) : (
+                              <Ban className="h-3 w-3 text-gray-600" />
+                            )}
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {cancellingVideoId === video.id ? "Cancelling..." : "Cancel generation"}
+                          </TooltipContent>
+                        </Tooltip>
+                      </Button>
+                    )}
+                    <Button
+                      asChild
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 hover:bg-gray-100"
+                      title="Open video page"
+                    >
+                      <Link href={`/videos/${video.id}`}>
+                        <Maximize2 className="h-3 w-3 text-gray-600" />
+                      </Link>
+                    </Button>
+                    {currentStatus === "completed" && (
+                      <ShareDialog videoId={video.id}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-blue-100"
+                          title="Share this video"
+                        >
+                          <Share2 className="h-3 w-3 text-blue-600" />
+                        </Button>
+                      </ShareDialog>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -496,6 +775,84 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
                       </Tooltip>
 
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRegenerateVideo(video)}
+                      className="h-8 w-8 p-0 hover:bg-green-100"
+                      title="Regenerate with same settings"
+                      disabled={regeneratingVideoId === video.id || !canRegenerate(video)}
+                    >
+                      <Tooltip>
+                        <TooltipTrigger>
+                          {regeneratingVideoId === video.id ? (
+                            <Loader2 className="h-3 w-3 text-green-600 animate-spin" />
+                          ) : (
+                            <Repeat className="h-3 w-3 text-green-600" />
+                          )}
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          {!canRegenerate(video)
+                            ? "The input reference of this video was not stored"
+                            : "Regenerate with same settings"}
+                        </TooltipContent>
+                      </Tooltip>
+                    </Button>
+                    {currentStatus === "completed" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleExtendVideo(video)}
+                        className="h-8 w-8 p-0 hover:bg-green-100"
+                        title="Extend from the last frame"
+                        disabled={extendingVideoId === video.id}
+                      >
+                        <Tooltip>
+                          <TooltipTrigger>
+                            {extendingVideoId === video.id ? (
+                              <Loader2 className="h-3 w-3 text-green-600 animate-spin" />
+                            ) : (
+                              <StepForward className="h-3 w-3 text-green-600" />
+                            )}
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {extendingVideoId === video.id ? "Extracting the last frame..." : "Extend from the last frame"}
+                          </TooltipContent>
+                        </Tooltip>
+                      </Button>
+                    )}
+                    {video.experiment_id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparedExperimentId(video.experiment_id ?? null)}
+                        className="h-8 w-8 p-0 hover:bg-purple-100"
+                        title="Compare sweep runs"
+                      >
+                        <Tooltip>
+                          <TooltipTrigger>
+                            <Columns3 className="h-3 w-3 text-purple-600" />
+                          </TooltipTrigger>
+                          <TooltipContent>Compare sweep runs</TooltipContent>
+                        </Tooltip>
+                      </Button>
+                    )}
+                    {(video.parent_video_id || remixedVideoIds.has(video.id)) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLineageVideoId(video.id)}
+                        className="h-8 w-8 p-0 hover:bg-amber-100"
+                        title="Show remix lineage"
+                      >
+                        <Tooltip>
+                          <TooltipTrigger>
+                            <GitBranch className="h-3 w-3 text-amber-600" />
+                          </TooltipTrigger>
+                          <TooltipContent>Show remix lineage</TooltipContent>
+                        </Tooltip>
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -569,6 +926,9 @@ export function VideoGrid({ videos, isLoading, onVideoUpdate, onPromptReuse, onV
           )
         })}
       </div>
+
+      <ExperimentComparison experimentId={comparedExperimentId} onClose={() => setComparedExperimentId(null)} />
+      <RemixLineage videoId={lineageVideoId} onClose={() => setLineageVideoId(null)} />
     </div>
   )
 }
@@ -0,0 +1,60 @@
+"use client"
+
+import { useState } from "react"
+import { Play } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface VideoThumbnailPlayerProps {
+  videoUrl: string
+  thumbnailUrl?: string | null
+  previewUrl?: string | null
+  className?: string
+}
+
+/**
+ * Poster frame of a video that plays its animated preview while hovered; the
+ * video itself only loads once the poster is clicked. Videos without a poster
+ * get a plain player.
+ */
+export function VideoThumbnailPlayer({ videoUrl, thumbnailUrl, previewUrl, className }: VideoThumbnailPlayerProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [isHovered, setIsHovered] = useState(false)
+
+  if (isPlaying || !thumbnailUrl) {
+    return (
+      <video
+        src={videoUrl}
+        poster={thumbnailUrl ?? undefined}
+        controls
+        autoPlay={isPlaying}
+        preload={isPlaying ? "auto" : "metadata"}
+        className={className}
+      />
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      aria-label="Play video"
+      onClick={() => setIsPlaying(true)}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => setIsHovered(true)}
+      onBlur={() => setIsHovered(false)}
+      className={cn("group relative block overflow-hidden", className)}
+    >
+      <img
+        src={isHovered && previewUrl ? previewUrl : thumbnailUrl}
+        alt=""
+        loading="lazy"
+        className="h-full w-full object-contain"
+      />
+      <span className="absolute inset-0 flex items-center justify-center">
+        <span className="rounded-full bg-black/60 p-3 text-white transition-opacity group-hover:opacity-0">
+          <Play className="h-5 w-5 fill-current" />
+        </span>
+      </span>
+    </button>
+  )
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Refresh this long before the first signed URL expires
+const REFRESH_MARGIN_MS = 60 * 1000
+
+/**
+ * Calls refresh shortly before the earliest signed video URL expires, so
+ * players never end up with a dead link. Videos from a public bucket have no
+ * expiry and never trigger a refresh.
+ */
+export const useSignedUrlRefresh = (videos: { video_url_expires_at?: string }[], refresh: () => void) => {
+  const refreshRef = useRef(refresh)
+
+  useEffect(() => {
+    refreshRef.current = refresh
+  }, [refresh])
+
+  const expiries = videos
+    .map((video) => (video.video_url_expires_at ? Date.parse(video.video_url_expires_at) : NaN))
+    .filter((expiry) => !Number.isNaN(expiry))
+  const nextExpiry = expiries.length > 0 ? Math.min(...expiries) : null
+
+  useEffect(() => {
+    if (nextExpiry === null) return
+
+    const timer = setTimeout(() => {
+      console.log(`[SIGNED-URLS] 🔄 Refreshing signed video URLs before they expire`)
+      refreshRef.current()
+    }, Math.max(nextExpiry - REFRESH_MARGIN_MS - Date.now(), 0))
+    return () => clearTimeout(timer)
+  }, [nextExpiry])
+}
@@ -8,167 +8,196 @@ interface ProgressData {
   progress?: number | null
   error_message?: string | null
   video_url?: string | null
-  openai_status?: string
+  video_url_expires_at?: string | null
+  thumbnail_url?: string | null
+  preview_url?: string | null
+  provider_status?: string | null
   updated_at: string
 }
 
+// Payload of `video` events from /api/videos/stream (VideoEvent in lib/video-events.ts)
+interface StreamEvent {
+  type: "progress" | "completed" | "failed" | "cancelled"
+  recordId: string
+  status: "in_progress" | "completed" | "failed" | "cancelled"
+  progress: number | null
+  providerStatus: string | null
+  videoUrl: string | null
+  videoUrlExpiresAt: string | null
+  thumbnailUrl?: string | null
+  previewUrl?: string | null
+  errorMessage: string | null
+  updatedAt: string
+}
+
+type ConnectionMode = "idle" | "stream" | "polling"
+
+const STREAM_URL = "/api/videos/stream"
+const POLL_INTERVAL = 10000 // Fallback polling while the stream is down
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+
+const isInProgress = (video: Video) => video.status === "in_progress" && !!video.video_id
+
+/**
+ * Live progress for in-progress videos. Subscribes to the server's progress
+ * stream and reconnects with backoff when it drops, polling
+ * /api/video-progress until the stream is back.
+ */
 export const useVideoProgress = (videos: Video[], onVideoUpdate: (updatedVideo: Video) => void) => {
   const [progressData, setProgressData] = useState<Record<string, ProgressData>>({})
-  const [isPolling, setIsPolling] = useState(false)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const lastFetchTimeRef = useRef<Record<string, number>>({})
+  const [connectionMode, setConnectionMode] = useState<ConnectionMode>("idle")
+  const [isPaused, setIsPaused] = useState(false)
+  const videosRef = useRef(videos)
+  const onVideoUpdateRef = useRef(onVideoUpdate)
+
+  useEffect(() => {
+    videosRef.current = videos
+    onVideoUpdateRef.current = onVideoUpdate
+  }, [videos, onVideoUpdate])
+
+  const hasInProgressVideos = videos.some(isInProgress)
+
+  const applyProgress = useCallback((recordId: string, data: ProgressData) => {
+    setProgressData(prev => ({
+      ...prev,
+      [recordId]: data
+    }))
+
+    // If the video finished (completed, failed or cancelled), update the parent
+    const video = videosRef.current.find(v => v.id === recordId)
+    if (video && video.status === "in_progress" && data.status !== "in_progress") {
+      onVideoUpdateRef.current({
+        ...video,
+        status: data.status as Video["status"],
+        video_url: data.video_url || video.video_url,
+        video_url_expires_at: data.video_url_expires_at ?? video.video_url_expires_at,
+        thumbnail_url: data.thumbnail_url ?? video.thumbnail_url,
+        preview_url: data.preview_url ?? video.preview_url,
+        error_message: data.error_message || undefined,
+      })
+    }
+  }, [])
 
-  const fetchProgress = useCallback(async (videoId: string, recordId: string) => {
+  const fetchProgress = useCallback(async (video: Video) => {
     try {
-      const response = await fetch(`/api/video-progress?video_id=${videoId}`)
+      const response = await fetch(`/api/video-progress?id=${video.id}`)
       if (response.ok) {
         const data: ProgressData = await response.json()
-        
-        setProgressData(prev => ({
-          ...prev,
-          [recordId]: data
-        }))
-
-        // If status changed to completed or failed, update the parent
-        if (data.status !== "in_progress") {
-          const updatedVideo: Video = {
-            id: recordId,
-            prompt: "", // Will be filled by parent
-            video_url: data.video_url || "",
-            status: data.status as "in_progress" | "completed" | "failed",
-            error_message: data.error_message || undefined,
-            created_at: data.updated_at,
-          }
-          onVideoUpdate(updatedVideo)
-        }
+        applyProgress(video.id, data)
       }
     } catch (error) {
-      console.error(`Failed to fetch progress for video ${videoId}:`, error)
+      console.error(`Failed to fetch progress for video ${video.video_id}:`, error)
     }
-  }, [onVideoUpdate])
+  }, [applyProgress])
 
-  // Start polling for in-progress videos
-  const startPolling = useCallback(() => {
-    const inProgressVideos = videos.filter(video => 
-      video.status === "in_progress" && video.video_id
-    )
+  const pollOnce = useCallback(() => {
+    videosRef.current.filter(isInProgress).forEach(video => fetchProgress(video))
+  }, [fetchProgress])
 
-    if (inProgressVideos.length === 0) {
-      setIsPolling(false)
-      return
+  // Stream while there are in-progress videos, falling back to polling
+  useEffect(() => {
+    if (!hasInProgressVideos || isPaused) return
+
+    let disposed = false
+    let eventSource: EventSource | null = null
+    let reconnectTimer: NodeJS.Timeout | null = null
+    let pollTimer: NodeJS.Timeout | null = null
+    let reconnectAttempts = 0
+
+    const startFallbackPolling = () => {
+      if (pollTimer) return
+      console.log(`[PROGRESS-STREAM] 🔄 Falling back to polling`)
+      setConnectionMode("polling")
+      pollOnce()
+      pollTimer = setInterval(pollOnce, POLL_INTERVAL)
     }
 
-    setIsPolling(true)
-    console.log(`[POLLING] 🔄 Starting polling for ${inProgressVideos.length} in-progress videos`)
-
-    // Initial fetch for all in-progress videos
-    inProgressVideos.forEach(video => {
-      if (video.video_id) {
-        fetchProgress(video.video_id, video.id)
-        lastFetchTimeRef.current[video.id] = Date.now()
+    const stopFallbackPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer)
+        pollTimer = null
       }
-    })
-
-    // Set up polling interval with exponential backoff
-    let pollInterval = 5000 // Start with 5 seconds
-    const maxInterval = 30000 // Max 30 seconds
-    const backoffMultiplier = 1.5
-
-    const poll = () => {
-      const currentInProgressVideos = videos.filter(video => 
-        video.status === "in_progress" && video.video_id
-      )
-      
-      if (currentInProgressVideos.length === 0) {
-        console.log(`[POLLING] ✅ No more in-progress videos, stopping polling`)
-        setIsPolling(false)
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current)
-          intervalRef.current = null
-        }
+    }
+
+    const connect = () => {
+      if (disposed) return
+      if (typeof EventSource === "undefined") {
+        startFallbackPolling()
         return
       }
 
-      console.log(`[POLLING] 📡 Polling ${currentInProgressVideos.length} videos (interval: ${pollInterval}ms)`)
-      
-      currentInProgressVideos.forEach(video => {
-        if (video.video_id) {
-          const lastFetch = lastFetchTimeRef.current[video.id] || 0
-          const timeSinceLastFetch = Date.now() - lastFetch
-          
-          // Only fetch if it's been at least 3 seconds since last fetch for this video
-          if (timeSinceLastFetch >= 3000) {
-            fetchProgress(video.video_id, video.id)
-            lastFetchTimeRef.current[video.id] = Date.now()
-          }
-        }
-      })
+      eventSource = new EventSource(STREAM_URL)
 
-      // Increase interval gradually (exponential backoff)
-      pollInterval = Math.min(pollInterval * backoffMultiplier, maxInterval)
-    }
-
-    // Clear any existing interval
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-    }
+      eventSource.onopen = () => {
+        console.log(`[PROGRESS-STREAM] 📡 Connected to progress stream`)
+        reconnectAttempts = 0
+        stopFallbackPolling()
+        setConnectionMode("stream")
+      }
 
-    intervalRef.current = setInterval(poll, pollInterval)
-  }, [videos, fetchProgress])
+      eventSource.addEventListener("video", (message) => {
+        const event: StreamEvent = JSON.parse((message as MessageEvent<string>).data)
+        applyProgress(event.recordId, {
+          status: event.status,
+          progress: event.progress,
+          error_message: event.errorMessage,
+          video_url: event.videoUrl,
+          video_url_expires_at: event.videoUrlExpiresAt,
+          thumbnail_url: event.thumbnailUrl,
+          preview_url: event.previewUrl,
+          provider_status: event.providerStatus,
+          updated_at: event.updatedAt,
+        })
+      })
 
-  // Stop polling
-  const stopPolling = useCallback(() => {
-    console.log(`[POLLING] ⏹️ Stopping polling`)
-    setIsPolling(false)
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
+      eventSource.onerror = () => {
+        // Reconnect ourselves so we can back off and poll in the meantime
+        eventSource?.close()
+        eventSource = null
+        if (disposed) return
+
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY)
+        reconnectAttempts++
+        console.warn(`[PROGRESS-STREAM] ⚠️ Stream disconnected, reconnecting in ${delay}ms`)
+        startFallbackPolling()
+        reconnectTimer = setTimeout(connect, delay)
+      }
     }
-  }, [])
 
-  // Effect to manage polling based on video status
-  useEffect(() => {
-    const inProgressVideos = videos.filter(video => 
-      video.status === "in_progress" && video.video_id
-    )
-
-    if (inProgressVideos.length > 0 && !isPolling) {
-      startPolling()
-    } else if (inProgressVideos.length === 0 && isPolling) {
-      stopPolling()
-    }
+    connect()
 
-    // Cleanup on unmount
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      disposed = true
+      eventSource?.close()
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      stopFallbackPolling()
+      setConnectionMode("idle")
     }
-  }, [videos, isPolling, startPolling, stopPolling])
+  }, [hasInProgressVideos, isPaused, applyProgress, pollOnce])
 
   const getVideoProgress = (videoId: string): ProgressData | null => {
     return progressData[videoId] || null
   }
 
+  const startPolling = useCallback(() => setIsPaused(false), [])
+
+  const stopPolling = useCallback(() => {
+    console.log(`[PROGRESS-STREAM] ⏹️ Live updates paused`)
+    setIsPaused(true)
+  }, [])
+
   const manualRefresh = useCallback(() => {
-    const inProgressVideos = videos.filter(video => 
-      video.status === "in_progress" && video.video_id
-    )
-    
-    console.log(`[POLLING] 🔄 Manual refresh for ${inProgressVideos.length} videos`)
-    inProgressVideos.forEach(video => {
-      if (video.video_id) {
-        fetchProgress(video.video_id, video.id)
-        lastFetchTimeRef.current[video.id] = Date.now()
-      }
-    })
-  }, [videos, fetchProgress])
-
-  return { 
-    getVideoProgress, 
-    isPolling, 
-    startPolling, 
-    stopPolling, 
-    manualRefresh 
+    console.log(`[PROGRESS-STREAM] 🔄 Manual refresh`)
+    pollOnce()
+  }, [pollOnce])
+
+  return {
+    getVideoProgress,
+    isPolling: connectionMode !== "idle",
+    connectionMode,
+    startPolling,
+    stopPolling,
+    manualRefresh
   }
 }
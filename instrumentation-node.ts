@@ -0,0 +1,16 @@
+import { validateProviderConfiguration } from "@/lib/providers"
+import { validateStorageConfiguration } from "@/lib/storage"
+import { startVideoJobWorker } from "@/lib/job-worker"
+
+/**
+ * Node.js part of the instrumentation hook, kept in its own module so the
+ * edge bundle of instrumentation.ts never includes Node.js built-ins
+ */
+export function registerNode() {
+  validateProviderConfiguration()
+  validateStorageConfiguration()
+
+  if (process.env.JOB_WORKER_ENABLED === "false") return
+
+  startVideoJobWorker()
+}
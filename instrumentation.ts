@@ -0,0 +1,14 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ * Validates the provider and storage configuration (throwing stops the server
+ * with a clear error) and starts the background video job worker on long-running Node.js servers.
+ * Set JOB_WORKER_ENABLED=false on serverless platforms and call
+ * /api/jobs/run from a cron job instead.
+ */
+export async function register() {
+  // Imported only in this branch so the edge runtime bundle leaves it out
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { registerNode } = await import("./instrumentation-node")
+    registerNode()
+  }
+}
@@ -0,0 +1,286 @@
+import { getRequestUserId, withDatabaseRetry } from "@/lib/database-utils"
+import { BATCH_LIMITS, type BatchItemInput } from "@/lib/batches"
+import { withPlaybackUrls } from "@/lib/storage-utils"
+
+/**
+ * Batch generation backed by the video_batches and video_batch_items tables
+ * (see scripts/006_video_batches.sql). Batches are created and read in the
+ * user's request; the worker claims and submits items with the service client.
+ */
+
+export type VideoBatchStatus = "running" | "completed" | "cancelled"
+export type VideoBatchItemStatus = "queued" | "submitting" | "submitted" | "failed" | "cancelled"
+
+export interface VideoBatch {
+  id: string
+  user_id: string | null
+  name: string
+  status: VideoBatchStatus
+  max_concurrency: number
+  total_items: number
+  created_at: string
+  updated_at: string
+}
+
+export interface VideoBatchItem {
+  id: string
+  batch_id: string
+  item_index: number
+  prompt: string
+  model: string
+  seconds: string
+  size: string
+  status: VideoBatchItemStatus
+  video_record_id: string | null
+  error_message: string | null
+  locked_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Video fields reported for each submitted item
+export interface VideoBatchItemVideo {
+  id: string
+  status: string
+  progress: number | null
+  video_url: string | null
+  storage_path: string | null
+  video_url_expires_at?: string
+  error_message: string | null
+}
+
+export interface VideoBatchItemWithVideo extends VideoBatchItem {
+  video: VideoBatchItemVideo | null
+}
+
+// Result of an item, combining its submission status with its video's status
+export type VideoBatchItemResult = "queued" | "submitting" | "in_progress" | "completed" | "failed" | "cancelled"
+
+export interface VideoBatchSummary {
+  total: number
+  queued: number
+  inProgress: number
+  completed: number
+  failed: number
+  cancelled: number
+}
+
+// Batch as returned by /api/batches
+export interface VideoBatchDetails extends VideoBatch {
+  summary: VideoBatchSummary
+  items: (VideoBatchItemWithVideo & { result: VideoBatchItemResult })[]
+}
+
+const SERVICE = { useServiceRole: true }
+
+const BATCH_ITEM_SELECT = "*, video:videos(id, status, progress, video_url, storage_path, error_message)"
+
+export const getBatchItemResult = (item: VideoBatchItemWithVideo): VideoBatchItemResult => {
+  if (item.status !== "submitted") return item.status
+  // The video was deleted after submission
+  if (!item.video) return "cancelled"
+  return item.video.status as VideoBatchItemResult
+}
+
+export const summarizeBatchItems = (items: VideoBatchItemWithVideo[]): VideoBatchSummary => {
+  const summary: VideoBatchSummary = { total: items.length, queued: 0, inProgress: 0, completed: 0, failed: 0, cancelled: 0 }
+  for (const item of items) {
+    const result = getBatchItemResult(item)
+    if (result === "queued") summary.queued++
+    else if (result === "submitting" || result === "in_progress") summary.inProgress++
+    else summary[result]++
+  }
+  return summary
+}
+
+export const toVideoBatchDetails = ({ items, ...batch }: VideoBatch & { items: VideoBatchItemWithVideo[] }): VideoBatchDetails => {
+  const sorted = [...items].sort((a, b) => a.item_index - b.item_index)
+  return {
+    ...batch,
+    summary: summarizeBatchItems(sorted),
+    items: sorted.map((item) => ({ ...item, result: getBatchItemResult(item) })),
+  }
+}
+
+/**
+ * Batches with playable URLs for their items' videos (signed when the bucket is private)
+ */
+export const withBatchPlaybackUrls = async (batches: VideoBatchDetails[]): Promise<VideoBatchDetails[]> => {
+  const videos = await withPlaybackUrls(
+    batches.flatMap((batch) => batch.items.flatMap((item) => (item.video ? [item.video] : [])))
+  )
+  const videosById = new Map(videos.map((video) => [video.id, video]))
+
+  return batches.map((batch) => ({
+    ...batch,
+    items: batch.items.map((item) => ({ ...item, video: item.video ? videosById.get(item.video.id) ?? item.video : null })),
+  }))
+}
+
+/**
+ * Create a batch owned by the signed-in user with its items queued
+ */
+export async function createVideoBatch(batch: { name: string; maxConcurrency: number; items: BatchItemInput[] }) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    const { data: created, error: batchError } = await supabase
+      .from("video_batches")
+      .insert({
+        user_id: userId,
+        name: batch.name,
+        max_concurrency: Math.min(Math.max(batch.maxConcurrency, 1), BATCH_LIMITS.maxConcurrency),
+        total_items: batch.items.length,
+      })
+      .select()
+      .single()
+
+    if (batchError) throw batchError
+
+    const { error: itemsError } = await supabase
+      .from("video_batch_items")
+      .insert(batch.items.map((item, index) => ({ ...item, batch_id: created.id, item_index: index })))
+
+    if (itemsError) {
+      // Do not leave an empty batch behind
+      await supabase.from("video_batches").delete().eq("id", created.id)
+      throw itemsError
+    }
+
+    return created as VideoBatch
+  })
+}
+
+/**
+ * Fetch the signed-in user's most recent batches with their items
+ */
+export async function fetchVideoBatches(limit: number = 20) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_batches")
+      .select(`*, items:video_batch_items(${BATCH_ITEM_SELECT})`)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data ?? []) as (VideoBatch & { items: VideoBatchItemWithVideo[] })[]
+  })
+}
+
+/**
+ * Fetch one of the signed-in user's batches with its items in file order
+ */
+export async function fetchVideoBatch(batchId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_batches")
+      .select(`*, items:video_batch_items(${BATCH_ITEM_SELECT})`)
+      .eq("id", batchId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query
+      .order("item_index", { referencedTable: "items", ascending: true })
+      .maybeSingle()
+
+    if (error) throw error
+    return data as (VideoBatch & { items: VideoBatchItemWithVideo[] }) | null
+  })
+}
+
+/**
+ * Stop one of the signed-in user's batches: queued items are cancelled,
+ * videos already generating are left to finish
+ * @returns false when the batch was not running
+ */
+export async function cancelVideoBatch(batchId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_batches")
+      .update({ status: "cancelled" })
+      .eq("id", batchId)
+      .eq("status", "running")
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.select("id")
+    if (error) throw error
+    if (!data || data.length === 0) return false
+
+    const { error: itemsError } = await supabase
+      .from("video_batch_items")
+      .update({ status: "cancelled", locked_at: null })
+      .eq("batch_id", batchId)
+      .eq("status", "queued")
+
+    if (itemsError) throw itemsError
+    return true
+  })
+}
+
+/**
+ * Atomically claim queued items within each running batch's concurrency cap
+ */
+export async function claimVideoBatchItems(batchSize: number, lockTimeoutSeconds: number) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase.rpc("claim_video_batch_items", {
+      batch_size: batchSize,
+      lock_timeout_seconds: lockTimeoutSeconds,
+    })
+
+    if (error) throw error
+    return (data ?? []) as VideoBatchItem[]
+  }, SERVICE)
+}
+
+/**
+ * Owners of the given batches, keyed by batch ID
+ */
+export async function fetchVideoBatchOwners(batchIds: string[]) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_batches")
+      .select("id, user_id")
+      .in("id", batchIds)
+
+    if (error) throw error
+    return new Map((data ?? []).map((batch) => [batch.id as string, batch.user_id as string | null]))
+  }, SERVICE)
+}
+
+/**
+ * Record the outcome of submitting a claimed item
+ */
+export async function updateVideoBatchItem(
+  itemId: string,
+  updates: { status: VideoBatchItemStatus; video_record_id?: string; error_message?: string | null }
+) {
+  return withDatabaseRetry(async (supabase) => {
+    const { error } = await supabase
+      .from("video_batch_items")
+      .update({ ...updates, locked_at: null })
+      .eq("id", itemId)
+      .eq("status", "submitting")
+
+    if (error) throw error
+  }, SERVICE)
+}
+
+/**
+ * Mark running batches without unfinished items as completed
+ * @returns The number of batches completed
+ */
+export async function completeFinishedVideoBatches() {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase.rpc("complete_video_batches")
+
+    if (error) throw error
+    return (data ?? 0) as number
+  }, SERVICE)
+}
@@ -0,0 +1,126 @@
+import { cancelUntrackedJob, getVideoProvider, ProviderRequestError } from "@/lib/providers"
+import { insertVideo } from "@/lib/database-utils"
+import { enqueueVideoJob } from "@/lib/job-queue"
+import {
+  claimVideoBatchItems,
+  completeFinishedVideoBatches,
+  fetchVideoBatchOwners,
+  updateVideoBatchItem,
+  type VideoBatchItem,
+} from "@/lib/batch-queue"
+
+/**
+ * Submits queued batch items to the provider, as many as each batch's
+ * concurrency cap allows. A submitted item becomes a regular video and video
+ * job, so the job worker takes it from there; the slot frees up once the
+ * video is no longer in progress.
+ */
+
+export const BATCH_WORKER_CONFIG = {
+  batchSize: 10, // Items submitted per run, across all batches
+  lockTimeoutSeconds: 120, // Items stuck in submitting longer than this are queued again
+}
+
+/**
+ * Submit one claimed item
+ */
+export async function submitVideoBatchItem(item: VideoBatchItem, userId: string | null) {
+  const logContext = { batchId: item.batch_id, itemId: item.id, row: item.item_index + 1 }
+  const provider = getVideoProvider()
+
+  try {
+    console.log(`[BATCH-WORKER] 🌐 Submitting batch item to ${provider.name.toUpperCase()}:`, logContext)
+    const job = await provider.createJob({
+      prompt: item.prompt,
+      model: item.model,
+      seconds: item.seconds,
+      size: item.size,
+      variants: 1,
+    })
+
+    if (!job.id) {
+      throw new Error(`No job ID in ${provider.name.toUpperCase()} response`)
+    }
+
+    const video = await insertVideo({
+      prompt: item.prompt,
+      video_url: "",
+      video_id: job.id,
+      model: item.model,
+      status: "in_progress",
+      error_message: "",
+      creation_type: "standard",
+      seconds: item.seconds,
+      size: item.size,
+      provider: provider.name,
+      request_params: {
+        prompt: item.prompt,
+        model: item.model,
+        seconds: item.seconds,
+        size: item.size,
+        provider: provider.name,
+        variants: 1,
+      },
+    }, { useServiceRole: true, userId }).catch(async (insertError) => {
+      // The item is marked failed, so nothing would track the job
+      await cancelUntrackedJob(provider, job.id)
+      throw insertError
+    })
+
+    await enqueueVideoJob({
+      videoRecordId: video.id,
+      provider: provider.name,
+      providerJobId: job.id,
+      jobType: "generate",
+    })
+
+    await updateVideoBatchItem(item.id, { status: "submitted", video_record_id: video.id, error_message: null })
+    console.log(`[BATCH-WORKER] ✅ Batch item submitted:`, { ...logContext, jobId: job.id, recordId: video.id })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+
+    // Rate limited: keep the item queued for a later run
+    if (error instanceof ProviderRequestError && error.status === 429) {
+      console.warn(`[BATCH-WORKER] ⏳ Rate limited, batch item stays queued:`, logContext)
+      await updateVideoBatchItem(item.id, { status: "queued", error_message: message })
+      return
+    }
+
+    console.error(`[BATCH-WORKER] ❌ Failed to submit batch item:`, { ...logContext, error: message })
+    await updateVideoBatchItem(item.id, { status: "failed", error_message: message })
+  }
+}
+
+/**
+ * Submit due batch items and close finished batches
+ * @returns The number of items submitted (or attempted)
+ */
+export async function advanceVideoBatches() {
+  const items = await claimVideoBatchItems(BATCH_WORKER_CONFIG.batchSize, BATCH_WORKER_CONFIG.lockTimeoutSeconds)
+
+  if (items.length > 0) {
+    console.log(`[BATCH-WORKER] 📦 Claimed ${items.length} batch item(s)`)
+    const owners = await fetchVideoBatchOwners([...new Set(items.map((item) => item.batch_id))])
+
+    // Sequential submission keeps provider rate limits in check
+    for (const item of items) {
+      try {
+        await submitVideoBatchItem(item, owners.get(item.batch_id) ?? null)
+      } catch (error) {
+        // Database errors: the item is queued again after the lock timeout
+        console.error(`[BATCH-WORKER] ❌ Unexpected error submitting batch item:`, {
+          itemId: item.id,
+          error: error instanceof Error ? error.message : error,
+          retryAfterSeconds: BATCH_WORKER_CONFIG.lockTimeoutSeconds,
+        })
+      }
+    }
+  }
+
+  const completed = await completeFinishedVideoBatches()
+  if (completed > 0) {
+    console.log(`[BATCH-WORKER] 🎉 Completed ${completed} batch(es)`)
+  }
+
+  return items.length
+}
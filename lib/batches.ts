@@ -0,0 +1,192 @@
+import { z } from "zod"
+import { DEFAULT_GENERATION_OPTIONS, VIDEO_MODELS, VIDEO_SECONDS, getModelSizes } from "@/lib/generation-options"
+
+/**
+ * Parsing and validation of batch prompt lists (CSV or JSON).
+ * Shared by the batch upload form (preview) and /api/batches (authoritative).
+ */
+
+export const BATCH_LIMITS = {
+  maxItems: 100,
+  maxConcurrency: 10,
+  defaultConcurrency: 3,
+  maxPromptLength: 4000,
+}
+
+export type BatchFormat = "csv" | "json"
+
+export interface BatchItemInput {
+  prompt: string
+  model: string
+  seconds: string
+  size: string
+}
+
+export interface BatchRowError {
+  row: number | null // 1-based data row, null for problems with the whole file
+  message: string
+}
+
+export interface ParsedBatch {
+  items: BatchItemInput[]
+  errors: BatchRowError[]
+}
+
+// CSV cells and JSON values may be empty: treat them as missing so defaults apply
+const blankToUndefined = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "")
+    ? undefined
+    : typeof value === "number" ? String(value) : value
+
+const batchRowSchema = z
+  .object({
+    prompt: z
+      .string({ required_error: "is required", invalid_type_error: "must be text" })
+      .trim()
+      .min(1, "is required")
+      .max(BATCH_LIMITS.maxPromptLength, `must be at most ${BATCH_LIMITS.maxPromptLength} characters`),
+    model: z.preprocess(
+      blankToUndefined,
+      z.enum(VIDEO_MODELS, { errorMap: () => ({ message: `must be one of ${VIDEO_MODELS.join(", ")}` }) })
+        .default(DEFAULT_GENERATION_OPTIONS.model)
+    ),
+    seconds: z.preprocess(
+      blankToUndefined,
+      z.enum(VIDEO_SECONDS, { errorMap: () => ({ message: `must be one of ${VIDEO_SECONDS.join(", ")}` }) })
+        .default("4")
+    ),
+    size: z.preprocess(blankToUndefined, z.string().default(DEFAULT_GENERATION_OPTIONS.size)),
+  })
+  .superRefine((row, ctx) => {
+    const sizes = getModelSizes(row.model)
+    if (!sizes.includes(row.size)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["size"], message: `must be one of ${sizes.join(", ")} for ${row.model}` })
+    }
+  })
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+const csvToRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""))
+  if (!header) return []
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  if (!columns.includes("prompt")) {
+    throw new Error("CSV header must include a prompt column (prompt,model,seconds,size)")
+  }
+
+  return rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])))
+}
+
+const jsonToRecords = (text: string): unknown[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("File is not valid JSON")
+  }
+
+  // Accept a plain array or { "items": [...] }
+  const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of rows or an object with an "items" array')
+  }
+  // Bare strings are prompts with default parameters
+  return items.map((item) => (typeof item === "string" ? { prompt: item } : item))
+}
+
+/**
+ * Detect the format of an uploaded file from its name
+ */
+export const detectBatchFormat = (filename: string): BatchFormat | null => {
+  const extension = filename.split(".").pop()?.toLowerCase()
+  return extension === "csv" ? "csv" : extension === "json" ? "json" : null
+}
+
+/**
+ * Parse and validate a prompt list. Valid rows are returned even when other
+ * rows have errors; callers decide whether to reject the whole batch.
+ */
+export const parseBatchInput = (content: string, format: BatchFormat): ParsedBatch => {
+  let records: unknown[]
+  try {
+    records = format === "csv" ? csvToRecords(content) : jsonToRecords(content)
+  } catch (error) {
+    return { items: [], errors: [{ row: null, message: error instanceof Error ? error.message : "Could not read file" }] }
+  }
+
+  if (records.length === 0) {
+    return { items: [], errors: [{ row: null, message: "The file does not contain any rows" }] }
+  }
+
+  return validateBatchRows(records)
+}
+
+/**
+ * Validate batch rows (objects with prompt, model, seconds, size) and apply
+ * defaults. Valid rows are returned even when other rows have errors.
+ */
+export const validateBatchRows = (records: unknown[]): ParsedBatch => {
+  if (records.length > BATCH_LIMITS.maxItems) {
+    return { items: [], errors: [{ row: null, message: `A batch can contain at most ${BATCH_LIMITS.maxItems} rows (found ${records.length})` }] }
+  }
+
+  const items: BatchItemInput[] = []
+  const errors: BatchRowError[] = []
+
+  records.forEach((record, index) => {
+    const result = batchRowSchema.safeParse(record)
+    if (result.success) {
+      items.push(result.data)
+    } else {
+      const problems = result.error.issues.map((issue) => `${issue.path.join(".") || "row"} ${issue.message}`)
+      errors.push({ row: index + 1, message: problems.join(", ") })
+    }
+  })
+
+  return { items, errors }
+}
@@ -0,0 +1,11 @@
+/**
+ * Whether a request may call a scheduled endpoint (/api/jobs/run,
+ * /api/storage/orphans). These act for every user and skip the session check,
+ * so they require "Authorization: Bearer $CRON_SECRET"; without CRON_SECRET
+ * they are only available while authentication is disabled.
+ */
+export const isCronRequestAuthorized = (request: Request) => {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret) return request.headers.get("authorization") === `Bearer ${cronSecret}`
+  return process.env.NEXT_PUBLIC_AUTH_ENABLED !== 'true'
+}
@@ -1,16 +1,26 @@
 import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
 import { DATABASE_CONFIG, logDatabaseMetrics, shouldRetryError, calculateRetryDelay } from "@/lib/database-config"
+import type { PromptTemplate } from "@/lib/prompt-templates"
+import type { ExperimentRun, VideoExperiment } from "@/lib/experiments"
+import type { VideoRequestParams } from "@/lib/generation-options"
+import type { VideoMediaMetadata } from "@/lib/mp4-metadata"
+import type { Video, VideoReference } from "@/types/video"
+import { MAX_LINEAGE_DEPTH, type LineageVideo } from "@/lib/lineage"
 
-interface DatabaseOperationOptions {
+export interface DatabaseOperationOptions {
   retries?: number
   timeout?: number
   retryDelay?: number
+  // Use the cookie-less service client (background jobs outside of a request)
+  useServiceRole?: boolean
 }
 
 const DEFAULT_OPTIONS: Required<DatabaseOperationOptions> = {
   retries: DATABASE_CONFIG.maxRetries,
   timeout: DATABASE_CONFIG.queryTimeout,
   retryDelay: DATABASE_CONFIG.retryDelay,
+  useServiceRole: false,
 }
 
 export class DatabaseTimeoutError extends Error {
@@ -84,45 +94,70 @@ export async function executeWithRetry<T>(
 }
 
 
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
 /**
  * Wrapper for Supabase operations with automatic retry and timeout handling
  */
 export async function withDatabaseRetry<T>(
-  operation: (supabase: Awaited<ReturnType<typeof createClient>>) => Promise<T>,
+  operation: (supabase: SupabaseClient) => Promise<T>,
   options: DatabaseOperationOptions = {}
 ): Promise<T> {
   return executeWithRetry(async () => {
-    const supabase = await createClient()
+    const supabase = options.useServiceRole ? createAdminClient() : await createClient()
     return operation(supabase)
   }, options)
 }
 
 /**
- * Optimized query for fetching videos with proper indexing
+ * Resolve the owner of the current request from the Supabase session.
+ * Returns null when authentication is disabled or nobody is signed in.
+ */
+export async function getRequestUserId(supabase: SupabaseClient): Promise<string | null> {
+  if (process.env.NEXT_PUBLIC_AUTH_ENABLED !== 'true') return null
+
+  const { data: { user } } = await supabase.auth.getUser()
+  return user?.id ?? null
+}
+
+/**
+ * Optimized query for fetching the current user's videos with proper indexing
  */
 export async function fetchVideosOptimized(limit: number = 50, offset: number = 0) {
   return withDatabaseRetry(async (supabase) => {
-    const { data, error } = await supabase
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
       .from("videos")
-      .select("id, prompt, video_url, video_id, status, error_message, creation_type, created_at")
+      .select("id, prompt, video_url, storage_path, thumbnail_url, thumbnail_path, preview_url, preview_path, media_metadata, video_id, model, seconds, size, provider, has_input_reference, request_params, status, error_message, creation_type, variant_group_id, variant_index, experiment_id, parent_video_id, previous_video_id, sequence_id, sequence_index, input_reference_id, input_reference:video_references(id, url, storage_path, file_name, content_type, size_bytes), created_at")
+
+    // Mirror the RLS policies so ownership also holds without them
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query
       .order("created_at", { ascending: false })
       .range(offset, offset + limit - 1)
     
     if (error) throw error
-    return data
+    // The single input_reference join is one object, not the array the query types infer
+    return (data ?? []) as unknown as Video[]
   })
 }
 
 /**
  * Optimized query for fetching a single video by ID
+ * @returns null when the current user has no such video
  */
 export async function fetchVideoById(videoId: string) {
   return withDatabaseRetry(async (supabase) => {
-    const { data, error } = await supabase
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
       .from("videos")
-      .select("*")
+      .select("*, input_reference:video_references(id, url, storage_path, file_name, content_type, size_bytes)")
       .eq("id", videoId)
-      .single()
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.maybeSingle()
     
     if (error) throw error
     return data
@@ -130,14 +165,22 @@ export async function fetchVideoById(videoId: string) {
 }
 
 /**
- * Optimized query for fetching a video by video_id (OpenAI job ID)
+ * Optimized query for fetching a video by video_id (OpenAI job ID).
+ * Variants of one provider job share its ID: the first variant is returned.
  */
 export async function fetchVideoByVideoId(videoId: string) {
   return withDatabaseRetry(async (supabase) => {
-    const { data, error } = await supabase
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
       .from("videos")
-      .select("id, video_id, status, error_message, video_url, created_at")
+      .select("id, video_id, status, progress, provider_status, error_message, video_url, storage_path, thumbnail_url, thumbnail_path, preview_url, preview_path, created_at, updated_at")
       .eq("video_id", videoId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query
+      .order("variant_index", { ascending: true })
+      .limit(1)
       .single()
     
     if (error) throw error
@@ -147,10 +190,24 @@ export async function fetchVideoByVideoId(videoId: string) {
 
 /**
  * Batch update operation for better performance
+ * @returns null when the video was deleted
  */
 export async function updateVideoStatus(
   recordId: string, 
-  updates: { status?: string; error_message?: string; video_url?: string }
+  updates: {
+    status?: string
+    error_message?: string
+    video_url?: string
+    storage_path?: string
+    thumbnail_url?: string | null
+    thumbnail_path?: string | null
+    preview_url?: string | null
+    preview_path?: string | null
+    media_metadata?: VideoMediaMetadata | null
+    progress?: number | null
+    provider_status?: string | null
+  },
+  options: DatabaseOperationOptions = {}
 ) {
   return withDatabaseRetry(async (supabase) => {
     const { data, error } = await supabase
@@ -158,15 +215,52 @@ export async function updateVideoStatus(
       .update(updates)
       .eq("id", recordId)
       .select()
-      .single()
+      .maybeSingle()
     
     if (error) throw error
     return data
-  })
+  }, options)
 }
 
 /**
- * Insert video with optimized error handling
+ * Update every video (variant) generated by one provider job
+ */
+export async function updateVideosForProviderJob(
+  providerJobId: string,
+  updates: Parameters<typeof updateVideoStatus>[1],
+  options: DatabaseOperationOptions = {}
+) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("videos")
+      .update(updates)
+      .eq("video_id", providerJobId)
+      .select("id, variant_index")
+    
+    if (error) throw error
+    return data ?? []
+  }, options)
+}
+
+/**
+ * Fetch the videos (variants) generated by one provider job, in variant order
+ */
+export async function fetchVideosForProviderJob(providerJobId: string, options: DatabaseOperationOptions = {}) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("videos")
+      .select("id, status, variant_index")
+      .eq("video_id", providerJobId)
+      .order("variant_index", { ascending: true })
+    
+    if (error) throw error
+    return data ?? []
+  }, options)
+}
+
+/**
+ * Insert video owned by the signed-in user, with optimized error handling.
+ * Background work (service client, no session) passes the owner explicitly.
  */
 export async function insertVideo(videoData: {
   prompt: string
@@ -176,15 +270,417 @@ export async function insertVideo(videoData: {
   status: string
   error_message?: string
   creation_type: string
-}) {
+  variant_group_id?: string | null
+  variant_index?: number
+  experiment_id?: string | null
+  seconds?: string | null
+  size?: string | null
+  provider?: string
+  has_input_reference?: boolean
+  request_params?: VideoRequestParams
+  input_reference_id?: string | null
+  previous_video_id?: string | null
+  sequence_id?: string | null
+  sequence_index?: number | null
+}, options: DatabaseOperationOptions & { userId?: string | null } = {}) {
   return withDatabaseRetry(async (supabase) => {
+    const userId = options.userId !== undefined ? options.userId : await getRequestUserId(supabase)
     const { data, error } = await supabase
       .from("videos")
-      .insert(videoData)
+      .insert({ ...videoData, user_id: userId })
       .select()
       .single()
     
     if (error) throw error
     return data
+  }, options)
+}
+
+/**
+ * Fetch progress of a user's in-progress videos, plus the given records
+ * whatever their status (to report videos that just finished). Runs with the
+ * service client, so the owner filter is what scopes the result.
+ */
+export async function fetchVideoProgressForOwner(userId: string | null, recordIds: string[] = []) {
+  return withDatabaseRetry(async (supabase) => {
+    let query = supabase
+      .from("videos")
+      .select("id, status, progress, provider_status, video_url, storage_path, thumbnail_url, thumbnail_path, preview_url, preview_path, error_message, updated_at")
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+    query = recordIds.length > 0
+      ? query.or(`status.eq.in_progress,id.in.(${recordIds.join(",")})`)
+      : query.eq("status", "in_progress")
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data
+  }, { useServiceRole: true })
+}
+
+/**
+ * Fetch the signed-in user's prompt templates, by name
+ */
+export async function fetchPromptTemplates() {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("prompt_templates")
+      .select("*")
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.order("name", { ascending: true })
+
+    if (error) throw error
+    return (data ?? []) as PromptTemplate[]
+  })
+}
+
+/**
+ * Fetch one of the signed-in user's prompt templates
+ */
+export async function fetchPromptTemplate(templateId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("prompt_templates")
+      .select("*")
+      .eq("id", templateId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) throw error
+    return data as PromptTemplate | null
+  })
+}
+
+/**
+ * Insert a prompt template owned by the signed-in user
+ */
+export async function insertPromptTemplate(template: { name: string; body: string }) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .insert({ ...template, user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as PromptTemplate
+  })
+}
+
+/**
+ * Update one of the signed-in user's prompt templates
+ * @returns null when the template does not exist
+ */
+export async function updatePromptTemplate(templateId: string, updates: { name?: string; body?: string }) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("prompt_templates")
+      .update(updates)
+      .eq("id", templateId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.select().maybeSingle()
+
+    if (error) throw error
+    return data as PromptTemplate | null
+  })
+}
+
+/**
+ * Delete one of the signed-in user's prompt templates
+ * @returns false when the template does not exist
+ */
+export async function deletePromptTemplate(templateId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("prompt_templates")
+      .delete()
+      .eq("id", templateId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.select("id")
+
+    if (error) throw error
+    return (data?.length ?? 0) > 0
+  })
+}
+
+/**
+ * Insert an experiment (parameter sweep) owned by the signed-in user
+ */
+export async function insertExperiment(prompt: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    const { data, error } = await supabase
+      .from("video_experiments")
+      .insert({ prompt, runs: [], user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as VideoExperiment
+  })
+}
+
+/**
+ * Record the runs of an experiment once they were submitted
+ */
+export async function updateExperimentRuns(experimentId: string, runs: ExperimentRun[]) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_experiments")
+      .update({ runs })
+      .eq("id", experimentId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as VideoExperiment
+  })
+}
+
+/**
+ * Delete an experiment none of whose runs could be submitted
+ */
+export async function deleteExperiment(experimentId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { error } = await supabase
+      .from("video_experiments")
+      .delete()
+      .eq("id", experimentId)
+
+    if (error) throw error
+  })
+}
+
+/**
+ * Fetch one of the signed-in user's experiments with its videos
+ */
+export async function fetchExperiment(experimentId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let experimentQuery = supabase
+      .from("video_experiments")
+      .select("*")
+      .eq("id", experimentId)
+
+    experimentQuery = userId ? experimentQuery.eq("user_id", userId) : experimentQuery.is("user_id", null)
+
+    const { data: experiment, error: experimentError } = await experimentQuery.maybeSingle()
+
+    if (experimentError) throw experimentError
+    if (!experiment) return null
+
+    let videosQuery = supabase
+      .from("videos")
+      .select("id, prompt, video_url, storage_path, thumbnail_url, thumbnail_path, preview_url, preview_path, video_id, model, seconds, size, provider, status, progress, error_message, created_at")
+      .eq("experiment_id", experimentId)
+
+    videosQuery = userId ? videosQuery.eq("user_id", userId) : videosQuery.is("user_id", null)
+
+    const { data: videos, error: videosError } = await videosQuery
+
+    if (videosError) throw videosError
+    return { experiment: experiment as VideoExperiment, videos: videos ?? [] }
+  })
+}
+
+/**
+ * Fetch the remix lineage of one of the signed-in user's videos: its original
+ * and every video remixed from it, directly or through other remixes
+ * @returns null when the video does not exist
+ */
+export async function fetchVideoLineage(videoId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    const columns = "id, prompt, video_url, storage_path, status, creation_type, created_at, parent_video_id"
+
+    const fetchVideos = async (column: "id" | "parent_video_id", ids: string[]) => {
+      let query = supabase
+        .from("videos")
+        .select(columns)
+        .in(column, ids)
+
+      query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data ?? []) as LineageVideo[]
+    }
+
+    // Walk up to the original video
+    let [root] = await fetchVideos("id", [videoId])
+    if (!root) return null
+    for (let depth = 0; root.parent_video_id && depth < MAX_LINEAGE_DEPTH; depth++) {
+      const [parent] = await fetchVideos("id", [root.parent_video_id])
+      if (!parent) break
+      root = parent
+    }
+
+    // Then collect its remixes one generation at a time
+    const videos = [root]
+    const seen = new Set([root.id])
+    let generation = [root.id]
+    for (let depth = 0; generation.length > 0 && depth < MAX_LINEAGE_DEPTH; depth++) {
+      const remixes = (await fetchVideos("parent_video_id", generation)).filter((video) => !seen.has(video.id))
+      remixes.forEach((video) => seen.add(video.id))
+      videos.push(...remixes)
+      generation = remixes.map((video) => video.id)
+    }
+
+    return { rootId: root.id, videos }
+  })
+}
+
+/**
+ * Position in its sequence of a clip continuing one of the signed-in user's
+ * videos: the next one after that video
+ * @returns null when the video does not exist
+ */
+export async function fetchNextSequencePosition(previousVideoId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("videos")
+      .select("id, sequence_id, sequence_index")
+      .eq("id", previousVideoId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.maybeSingle()
+    if (error) throw error
+    if (!data) return null
+
+    // A video that is not part of a sequence yet starts one
+    return {
+      previous_video_id: data.id as string,
+      sequence_id: (data.sequence_id ?? data.id) as string,
+      sequence_index: ((data.sequence_index as number | null) ?? 0) + 1,
+    }
+  })
+}
+
+/**
+ * Make a video the first clip of its sequence, once a clip continues it
+ */
+export async function startVideoSequence(videoId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { error } = await supabase
+      .from("videos")
+      .update({ sequence_id: videoId, sequence_index: 0 })
+      .eq("id", videoId)
+      .is("sequence_id", null)
+
+    if (error) throw error
+  })
+}
+
+/**
+ * Fetch the signed-in user's input references, most recent first
+ */
+export async function fetchReferences(limit: number = 50) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_references")
+      .select("id, url, storage_path, file_name, content_type, size_bytes, created_at")
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data ?? []) as VideoReference[]
+  })
+}
+
+/**
+ * Fetch one of the signed-in user's input references, by ID or by content hash
+ */
+export async function fetchReference(match: { id: string } | { contentHash: string }) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_references")
+      .select("*")
+
+    query = "id" in match ? query.eq("id", match.id) : query.eq("content_hash", match.contentHash)
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.limit(1).maybeSingle()
+
+    if (error) throw error
+    return data as (VideoReference & { storage_path: string }) | null
+  })
+}
+
+/**
+ * Record an input reference owned by the signed-in user
+ */
+export async function insertReference(reference: {
+  storage_path: string
+  url: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+  content_hash: string
+}) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    const { data, error } = await supabase
+      .from("video_references")
+      .insert({ ...reference, user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as VideoReference & { storage_path: string }
+  })
+}
+
+/**
+ * Delete one of the signed-in user's input references once no video of
+ * theirs uses it anymore
+ * @returns the deleted reference, or null when it is still in use or missing
+ */
+export async function deleteReferenceIfUnused(referenceId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let usageQuery = supabase
+      .from("videos")
+      .select("id", { count: "exact", head: true })
+      .eq("input_reference_id", referenceId)
+
+    usageQuery = userId ? usageQuery.eq("user_id", userId) : usageQuery.is("user_id", null)
+
+    const { count, error: usageError } = await usageQuery
+    if (usageError) throw usageError
+    if (count) return null
+
+    let deleteQuery = supabase
+      .from("video_references")
+      .delete()
+      .eq("id", referenceId)
+
+    deleteQuery = userId ? deleteQuery.eq("user_id", userId) : deleteQuery.is("user_id", null)
+
+    const { data, error } = await deleteQuery.select("id, storage_path").maybeSingle()
+
+    if (error) throw error
+    return data as { id: string; storage_path: string } | null
   })
 }
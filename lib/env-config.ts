@@ -0,0 +1,23 @@
+import { z } from "zod"
+
+/**
+ * Parse process.env with a zod schema, shared by the provider and storage
+ * configuration. Problems are reported together, naming each variable.
+ * @param label - What is configured, e.g. "openai provider"
+ * @param ConfigError - Error class thrown for an invalid configuration
+ */
+export const parseEnvConfig = <T extends z.ZodTypeAny>(
+  schema: T,
+  label: string,
+  ConfigError: new (message: string) => Error
+): z.infer<T> => {
+  // Treat empty strings like unset variables so defaults apply
+  const env = Object.fromEntries(Object.entries(process.env).filter(([, value]) => value !== ""))
+  const result = schema.safeParse(env)
+
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`)
+    throw new ConfigError(`Invalid ${label} configuration: ${problems.join(", ")}`)
+  }
+  return result.data
+}
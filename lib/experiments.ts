@@ -0,0 +1,111 @@
+import { VIDEO_MODELS, VIDEO_SECONDS, estimateVideoCost, formatCost, getModelSizes } from "@/lib/generation-options"
+
+/**
+ * Parameter sweeps: one prompt generated across every combination of the
+ * selected models, durations and sizes, linked as an experiment.
+ * Shared by the sweep form (cost preview) and /api/experiments (enforced).
+ */
+
+export const SWEEP_LIMITS = {
+  maxRuns: 12,
+  maxEstimatedCost: 30, // USD
+}
+
+export interface SweepSelection {
+  models: string[]
+  seconds: string[]
+  sizes: string[]
+}
+
+export interface SweepRun {
+  model: string
+  seconds: string
+  size: string
+}
+
+export interface SweepPlan {
+  runs: SweepRun[]
+  // Combinations the model does not support (e.g. sora-2 at 1792x1024)
+  skipped: SweepRun[]
+  estimatedCost: number
+  error: string | null
+}
+
+// One run of an experiment and the video it produced
+export interface ExperimentRun extends SweepRun {
+  video_record_id: string | null
+  error_message?: string
+}
+
+export interface VideoExperiment {
+  id: string
+  user_id: string | null
+  prompt: string
+  runs: ExperimentRun[]
+  created_at: string
+}
+
+export const formatSweepRun = (run: SweepRun) => `${run.model} · ${run.seconds}s · ${run.size}`
+
+// Every size some model supports
+const SWEEP_SIZES = Array.from(new Set(VIDEO_MODELS.flatMap((model) => getModelSizes(model))))
+
+/**
+ * Expand a selection into runs and check it against the sweep limits.
+ * Each list is deduplicated and checked against the supported values first,
+ * so its length is bounded before any combination is built.
+ */
+export const planSweep = (selection: SweepSelection): SweepPlan => {
+  const models = Array.from(new Set(selection.models))
+  const seconds = Array.from(new Set(selection.seconds))
+  const sizes = Array.from(new Set(selection.sizes))
+  const emptyPlan = { runs: [], skipped: [], estimatedCost: 0 }
+
+  const invalidModel = models.find((model) => !(VIDEO_MODELS as readonly string[]).includes(model))
+  if (invalidModel) return { ...emptyPlan, error: `Unknown model: ${invalidModel}` }
+
+  const invalidSeconds = seconds.find((value) => !(VIDEO_SECONDS as readonly string[]).includes(value))
+  if (invalidSeconds) return { ...emptyPlan, error: `Unsupported duration: ${invalidSeconds}` }
+
+  const invalidSize = sizes.find((size) => !SWEEP_SIZES.includes(size))
+  if (invalidSize) return { ...emptyPlan, error: `Unsupported size: ${invalidSize}` }
+
+  const runCount = models.reduce(
+    (count, model) => count + seconds.length * sizes.filter((size) => getModelSizes(model).includes(size)).length,
+    0
+  )
+  const runs: SweepRun[] = []
+  const skipped: SweepRun[] = []
+
+  // Runs past the limit are not built; the plan is rejected anyway
+  build: for (const model of models) {
+    for (const value of seconds) {
+      for (const size of sizes) {
+        const run = { model, seconds: value, size }
+        if (!getModelSizes(model).includes(size)) {
+          skipped.push(run)
+        } else if (runs.push(run) > SWEEP_LIMITS.maxRuns) {
+          break build
+        }
+      }
+    }
+  }
+
+  const estimatedCost = runs.reduce((total, run) => total + estimateVideoCost(run.model, run.seconds, run.size), 0)
+  const plan = { runs, skipped, estimatedCost }
+
+  if (runCount === 0) {
+    return { ...plan, error: "Select at least one model, duration and size the model supports" }
+  }
+  if (runCount > SWEEP_LIMITS.maxRuns) {
+    return { ...plan, error: `A sweep can have at most ${SWEEP_LIMITS.maxRuns} runs (selected ${runCount})` }
+  }
+  if (estimatedCost > SWEEP_LIMITS.maxEstimatedCost) {
+    return {
+      ...plan,
+      error: `Estimated cost ${formatCost(estimatedCost)} exceeds the sweep limit of ${formatCost(SWEEP_LIMITS.maxEstimatedCost)}`,
+    }
+  }
+
+  return { ...plan, error: null }
+}
@@ -0,0 +1,116 @@
+import type { Video } from "@/types/video"
+
+/**
+ * Generation parameters accepted by the UI and the generation APIs
+ */
+
+export const VIDEO_MODELS = ["sora-2", "sora-2-pro"] as const
+export const VIDEO_SECONDS = ["4", "8", "12"] as const
+
+export type VideoModel = (typeof VIDEO_MODELS)[number]
+
+export const DEFAULT_GENERATION_OPTIONS = {
+  model: "sora-2" as VideoModel,
+  seconds: "4",
+  size: "1280x720",
+}
+
+// Request a video was generated with, stored in videos.request_params
+export interface VideoRequestParams {
+  prompt: string
+  model: string
+  seconds: string | null
+  size: string | null
+  provider: string
+  variants?: number
+  input_reference?: { name: string; type: string; size: number; reference_id?: string } | null
+  // Remixes: provider job of the remixed video
+  source_video_id?: string
+}
+
+/**
+ * Output sizes supported by a model
+ */
+export const getModelSizes = (model: string): string[] =>
+  model === "sora-2-pro" ? ["1280x720", "720x1280", "1024x1792", "1792x1024"] : ["1280x720", "720x1280"]
+
+// Approximate list prices in USD per second of video, for cost estimates only
+const PRICE_PER_SECOND: Record<VideoModel, { standard: number; highResolution: number }> = {
+  "sora-2": { standard: 0.1, highResolution: 0.1 },
+  "sora-2-pro": { standard: 0.3, highResolution: 0.5 },
+}
+
+const HIGH_RESOLUTION_SIZES = ["1024x1792", "1792x1024"]
+
+/**
+ * Estimated cost in USD of generating one video
+ */
+export const estimateVideoCost = (model: string, seconds: string, size: string): number => {
+  const prices = PRICE_PER_SECOND[model as VideoModel] ?? PRICE_PER_SECOND["sora-2-pro"]
+  const pricePerSecond = HIGH_RESOLUTION_SIZES.includes(size) ? prices.highResolution : prices.standard
+  return pricePerSecond * Number(seconds)
+}
+
+export const formatCost = (usd: number) => `$${usd.toFixed(2)}`
+
+/**
+ * Width and height of a WIDTHxHEIGHT size
+ */
+export const parseVideoSize = (size: string | null | undefined): { width: number; height: number } | null => {
+  const [width, height] = (size ?? "").split("x").map(Number)
+  if (!width || !height) return null
+  return { width, height }
+}
+
+/**
+ * Orientation of a WIDTHxHEIGHT size
+ */
+export const getSizeOrientation = (size: string | null | undefined): "landscape" | "portrait" | null => {
+  const dimensions = parseVideoSize(size)
+  if (!dimensions) return null
+  return dimensions.width >= dimensions.height ? "landscape" : "portrait"
+}
+
+/**
+ * Prompt, model, duration and size a video was requested with
+ */
+export const getGenerationSettings = (video: Video) => {
+  const params = video.request_params
+  return {
+    prompt: params?.prompt ?? video.prompt,
+    model: params?.model ?? video.model ?? "sora-2",
+    seconds: params?.seconds ?? video.seconds ?? undefined,
+    size: params?.size ?? video.size ?? undefined,
+  }
+}
+
+/**
+ * Request that submits a video's stored parameters again (a remix remixes the
+ * same source again)
+ */
+export const getRegenerateRequest = (video: Video): { endpoint: string; body: Record<string, unknown> } => {
+  const params = video.request_params
+  if (video.creation_type === "remix" && params?.source_video_id) {
+    return {
+      endpoint: "/api/remix-video",
+      body: { prompt: params.prompt, input_video_id: params.source_video_id, input_video_record_id: video.parent_video_id ?? undefined },
+    }
+  }
+
+  return {
+    endpoint: "/api/generate-video",
+    body: {
+      ...getGenerationSettings(video),
+      variants: params?.variants ?? 1,
+      input_reference_id: video.input_reference_id ?? undefined,
+      // A new take of an extension continues the same clip
+      previous_video_id: video.previous_video_id ?? undefined,
+    },
+  }
+}
+
+/**
+ * Whether a video's request can be submitted again; references uploaded
+ * before they were stored are lost
+ */
+export const canRegenerate = (video: Video) => !video.has_input_reference || !!video.input_reference_id
@@ -0,0 +1,264 @@
+import { hostname } from "os"
+import { withDatabaseRetry } from "@/lib/database-utils"
+
+/**
+ * Durable video job queue backed by the video_jobs table
+ * (see scripts/001_video_jobs.sql). All operations use the service client
+ * because the worker runs outside of any user request.
+ * One job tracks one provider job, which may produce several video variants
+ * (rows sharing video_id); video_record_id points at the first of them, and
+ * moves to the next one when that video is deleted (017_video_job_variants.sql).
+ */
+
+export const JOB_QUEUE_CONFIG = {
+  pollIntervalMs: 5000, // Delay between provider status checks for one job
+  workerTickMs: 2000, // How often the worker looks for due jobs
+  batchSize: 5,
+  lockTimeoutSeconds: 300, // Jobs locked longer than this are considered orphaned
+  maxAttempts: {
+    generate: 150,
+    remix: 60,
+  },
+}
+
+export type VideoJobType = "generate" | "remix"
+export type VideoJobStatus = "pending" | "processing" | "completed" | "failed" | "cancelled"
+
+export interface VideoJob {
+  id: string
+  video_record_id: string
+  provider: string
+  provider_job_id: string
+  job_type: VideoJobType
+  status: VideoJobStatus
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+const SERVICE = { useServiceRole: true }
+
+/**
+ * Identifier of this worker process (hostname:pid)
+ */
+export const getWorkerId = () => `${hostname()}:${process.pid}`
+
+const runAfter = (delayMs: number) => new Date(Date.now() + delayMs).toISOString()
+
+/**
+ * Enqueue a provider job for background processing
+ */
+export async function enqueueVideoJob(job: {
+  videoRecordId: string
+  provider: string
+  providerJobId: string
+  jobType: VideoJobType
+}) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .insert({
+        video_record_id: job.videoRecordId,
+        provider: job.provider,
+        provider_job_id: job.providerJobId,
+        job_type: job.jobType,
+        max_attempts: JOB_QUEUE_CONFIG.maxAttempts[job.jobType],
+        run_after: runAfter(JOB_QUEUE_CONFIG.pollIntervalMs),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as VideoJob
+  }, SERVICE)
+}
+
+/**
+ * Atomically claim due jobs (including jobs orphaned by a dead worker)
+ */
+export async function claimVideoJobs(workerId: string, batchSize: number = JOB_QUEUE_CONFIG.batchSize) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase.rpc("claim_video_jobs", {
+      worker_id: workerId,
+      batch_size: batchSize,
+      lock_timeout_seconds: JOB_QUEUE_CONFIG.lockTimeoutSeconds,
+    })
+
+    if (error) throw error
+    return (data ?? []) as VideoJob[]
+  }, SERVICE)
+}
+
+/**
+ * Claim the pending job of one provider job, if no worker holds it
+ */
+export async function claimVideoJobForProviderJob(providerJobId: string, workerId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .update({ status: "processing", locked_at: new Date().toISOString(), locked_by: workerId })
+      .eq("provider_job_id", providerJobId)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data as VideoJob | null
+  }, SERVICE)
+}
+
+/**
+ * Fetch the most recent job tracking a provider job
+ */
+export async function fetchVideoJobForProviderJob(providerJobId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .select("*")
+      .eq("provider_job_id", providerJobId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data as VideoJob | null
+  }, SERVICE)
+}
+
+/**
+ * Release a job back to the queue to be checked again later
+ * @returns false when the job is no longer being processed (e.g. cancelled)
+ */
+export async function rescheduleVideoJob(jobId: string, updates: { attempts: number; last_error?: string | null }) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .update({
+        ...updates,
+        status: "pending",
+        run_after: runAfter(JOB_QUEUE_CONFIG.pollIntervalMs),
+        locked_at: null,
+        locked_by: null,
+      })
+      .eq("id", jobId)
+      .eq("status", "processing")
+      .select("id")
+
+    if (error) throw error
+    return (data?.length ?? 0) > 0
+  }, SERVICE)
+}
+
+/**
+ * Mark a job as finished
+ * @returns false when the job is no longer being processed (e.g. cancelled)
+ */
+export async function finishVideoJob(
+  jobId: string,
+  status: "completed" | "failed",
+  updates: { attempts: number; last_error?: string | null }
+) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .update({ ...updates, status, locked_at: null, locked_by: null })
+      .eq("id", jobId)
+      .eq("status", "processing")
+      .select("id")
+
+    if (error) throw error
+    return (data?.length ?? 0) > 0
+  }, SERVICE)
+}
+
+/**
+ * Cancel the unfinished jobs of a provider job so no worker polls it again
+ * @returns The cancelled jobs
+ */
+export async function cancelVideoJobsForProviderJob(providerJobId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .update({ status: "cancelled", locked_at: null, locked_by: null })
+      .eq("provider_job_id", providerJobId)
+      .in("status", ["pending", "processing"])
+      .select()
+
+    if (error) throw error
+    return (data ?? []) as VideoJob[]
+  }, SERVICE)
+}
+
+/**
+ * Return jobs held by a previous process on this host to the queue.
+ * Jobs held by other hosts are reclaimed once their lock times out.
+ */
+export async function releaseOrphanedVideoJobs(workerId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_jobs")
+      .update({ status: "pending", locked_at: null, locked_by: null })
+      .eq("status", "processing")
+      .like("locked_by", `${hostname()}:%`)
+      .neq("locked_by", workerId)
+      .select("id")
+
+    if (error) throw error
+    return data?.length ?? 0
+  }, SERVICE)
+}
+
+/**
+ * Enqueue videos that are in progress but have no job (e.g. created by the
+ * old in-request polling, which stopped when the process restarted)
+ */
+export async function enqueueUntrackedVideos(provider: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { data: videos, error: videosError } = await supabase
+      .from("videos")
+      .select("id, video_id, creation_type")
+      .eq("status", "in_progress")
+      .not("video_id", "is", null)
+      .order("variant_index", { ascending: true })
+
+    if (videosError) throw videosError
+    if (!videos || videos.length === 0) return 0
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from("video_jobs")
+      .select("provider_job_id")
+      .in("provider_job_id", videos.map((video) => video.video_id))
+
+    if (jobsError) throw jobsError
+
+    // One job per provider job, attached to its first variant
+    const tracked = new Set((jobs ?? []).map((job) => job.provider_job_id))
+    const untracked = videos.filter((video) => {
+      if (tracked.has(video.video_id)) return false
+      tracked.add(video.video_id)
+      return true
+    })
+    if (untracked.length === 0) return 0
+
+    const { error } = await supabase.from("video_jobs").insert(
+      untracked.map((video) => {
+        const jobType: VideoJobType = video.creation_type === "remix" ? "remix" : "generate"
+        return {
+          video_record_id: video.id,
+          provider,
+          provider_job_id: video.video_id,
+          job_type: jobType,
+          max_attempts: JOB_QUEUE_CONFIG.maxAttempts[jobType],
+        }
+      })
+    )
+
+    if (error) throw error
+    return untracked.length
+  }, SERVICE)
+}
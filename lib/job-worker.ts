@@ -0,0 +1,285 @@
+import { getCurrentProvider } from "@/lib/provider-config"
+import { getVideoProvider, type ProviderJob } from "@/lib/providers"
+import { fetchVideosForProviderJob, updateVideoStatus, updateVideosForProviderJob } from "@/lib/database-utils"
+import { downloadAndStoreVideo, toVideoFileColumns, type StoredVideoFiles } from "@/lib/video-processing"
+import { deleteStorageObjects, getVideoFilePaths, withPlaybackUrls } from "@/lib/storage-utils"
+import { publishVideoEvent, type VideoEvent } from "@/lib/video-events"
+import { advanceVideoBatches } from "@/lib/batch-worker"
+import {
+  JOB_QUEUE_CONFIG,
+  claimVideoJobs,
+  enqueueUntrackedVideos,
+  finishVideoJob,
+  getWorkerId,
+  releaseOrphanedVideoJobs,
+  rescheduleVideoJob,
+  type VideoJob,
+} from "@/lib/job-queue"
+
+/**
+ * Background worker for the durable video job queue.
+ * Each claimed job gets one provider status check per run; unfinished jobs
+ * are released back to the queue, finished jobs are downloaded and stored.
+ * A provider job may have produced several variants: every video sharing its
+ * ID is updated, and each variant is downloaded into its own video.
+ * The job row is updated before the video, so a job cancelled while it was
+ * being processed never overwrites the cancelled video; files stored for it
+ * are deleted instead of being left without a video.
+ */
+
+export interface VideoJobOutcome {
+  status: "pending" | "completed" | "failed" | "cancelled"
+  providerStatus?: string
+  progress?: number | null
+  error?: string | null
+  videoUrl?: string
+}
+
+const SERVICE = { useServiceRole: true }
+
+const publish = (videos: { id: string }[], event: Omit<VideoEvent, "recordId" | "updatedAt">) =>
+  videos.forEach((video) => publishVideoEvent({ ...event, recordId: video.id, updatedAt: new Date().toISOString() }))
+
+/**
+ * Delete stored files no video points to; failures are left to the orphan scan
+ */
+const discardStoredVideos = async (storedVideos: Iterable<StoredVideoFiles>) => {
+  const paths = Array.from(storedVideos).flatMap((stored) => getVideoFilePaths(toVideoFileColumns(stored)))
+  try {
+    await deleteStorageObjects(paths)
+  } catch (error) {
+    console.error(`[JOB-WORKER] ❌ Failed to delete unused video files:`, { paths, error })
+  }
+}
+
+/**
+ * Run one processing step for a claimed job
+ */
+export async function processVideoJob(job: VideoJob): Promise<VideoJobOutcome> {
+  const attempts = job.attempts + 1
+  const logContext = { jobId: job.id, providerJobId: job.provider_job_id, recordId: job.video_record_id, attempt: attempts }
+
+  const cancelled = () => {
+    console.log(`[JOB-WORKER] 🚫 Job was cancelled while processing:`, logContext)
+    return { status: "cancelled" as const }
+  }
+
+  const failJob = async (errorMessage: string | null, providerStatus: string | null = null) => {
+    if (!(await finishVideoJob(job.id, "failed", { attempts, last_error: errorMessage }))) return cancelled()
+    const videos = await updateVideosForProviderJob(job.provider_job_id, {
+      status: "failed",
+      ...(errorMessage ? { error_message: errorMessage } : {}),
+      ...(providerStatus ? { provider_status: providerStatus } : {}),
+    }, SERVICE)
+    publish(videos, {
+      type: "failed",
+      status: "failed",
+      progress: null,
+      providerStatus,
+      videoUrl: null,
+      videoUrlExpiresAt: null,
+      errorMessage,
+    })
+    return { status: "failed" as const, error: errorMessage }
+  }
+
+  // Files stored for this job that no video records yet
+  const unrecordedVideos = new Set<StoredVideoFiles>()
+
+  try {
+    const provider = getVideoProvider(job.provider)
+    let providerJob: ProviderJob
+
+    try {
+      providerJob = await provider.getStatus(job.provider_job_id)
+    } catch (statusError) {
+      const message = statusError instanceof Error ? statusError.message : String(statusError)
+      console.warn(`[JOB-WORKER] ⚠️ Status check failed:`, { ...logContext, error: message })
+
+      if (attempts >= job.max_attempts) {
+        console.error(`[JOB-WORKER] ⏰ Giving up after ${attempts} attempts:`, logContext)
+        return await failJob(null)
+      }
+      if (!(await rescheduleVideoJob(job.id, { attempts, last_error: message }))) return cancelled()
+      return { status: "pending", error: message }
+    }
+
+    console.log(`[JOB-WORKER] 📋 Current job status:`, {
+      ...logContext,
+      status: providerJob.providerStatus,
+      progress: providerJob.progress ?? "unknown",
+    })
+
+    if (providerJob.status === "failed") {
+      console.error(`[JOB-WORKER] ❌ Video generation failed:`, { ...logContext, error: providerJob.errorMessage })
+      return await failJob(providerJob.errorMessage, providerJob.providerStatus)
+    }
+
+    if (providerJob.status !== "completed") {
+      if (attempts >= job.max_attempts) {
+        console.error(`[JOB-WORKER] ⏰ Timeout reached after ${attempts} attempts:`, logContext)
+        return await failJob(null, providerJob.providerStatus)
+      }
+      if (!(await rescheduleVideoJob(job.id, { attempts, last_error: null }))) return cancelled()
+      const videos = await updateVideosForProviderJob(job.provider_job_id, {
+        progress: providerJob.progress,
+        provider_status: providerJob.providerStatus,
+      }, SERVICE)
+      publish(videos, {
+        type: "progress",
+        status: "in_progress",
+        progress: providerJob.progress,
+        providerStatus: providerJob.providerStatus,
+        videoUrl: null,
+        videoUrlExpiresAt: null,
+        errorMessage: null,
+      })
+      return { status: "pending", providerStatus: providerJob.providerStatus, progress: providerJob.progress }
+    }
+
+    console.log(`[JOB-WORKER] ✅ Video generation completed:`, logContext)
+
+    const variants = await fetchVideosForProviderJob(job.provider_job_id, SERVICE)
+    const storedVideos: StoredVideoFiles[] = []
+    try {
+      // Each remaining variant gets its own output, even after another was deleted
+      for (const variant of variants) {
+        const stored = await downloadAndStoreVideo(provider, providerJob, "JOB-WORKER", variant.variant_index ?? 0)
+        storedVideos.push(stored)
+        unrecordedVideos.add(stored)
+      }
+    } catch (uploadError) {
+      console.error(`[JOB-WORKER] ❌ Failed to store video:`, uploadError)
+      await discardStoredVideos(unrecordedVideos)
+      return await failJob(
+        `Failed to upload video: ${uploadError instanceof Error ? uploadError.message : 'Unknown error'}`,
+        providerJob.providerStatus
+      )
+    }
+
+    if (!(await finishVideoJob(job.id, "completed", { attempts, last_error: null }))) {
+      await discardStoredVideos(unrecordedVideos)
+      return cancelled()
+    }
+    // A variant deleted since it was fetched is skipped, so the others still complete
+    const completedVariants: { variant: (typeof variants)[number]; stored: StoredVideoFiles }[] = []
+    for (const [index, variant] of variants.entries()) {
+      const updated = await updateVideoStatus(variant.id, {
+        ...toVideoFileColumns(storedVideos[index]),
+        status: "completed",
+        progress: 100,
+        provider_status: providerJob.providerStatus,
+      }, SERVICE)
+      if (!updated) {
+        console.log(`[JOB-WORKER] 🗑️ Variant was deleted while processing:`, { ...logContext, variantId: variant.id })
+        continue
+      }
+      unrecordedVideos.delete(storedVideos[index])
+      completedVariants.push({ variant, stored: storedVideos[index] })
+    }
+    await discardStoredVideos(unrecordedVideos)
+
+    // Listeners get a playable URL, signed when the bucket is private
+    const playbackUrls = await withPlaybackUrls(completedVariants.map(({ stored }) => toVideoFileColumns(stored)))
+    for (const [index, { variant }] of completedVariants.entries()) {
+      publish([variant], {
+        type: "completed",
+        status: "completed",
+        progress: 100,
+        providerStatus: providerJob.providerStatus,
+        videoUrl: playbackUrls[index].video_url || null,
+        videoUrlExpiresAt: playbackUrls[index].video_url_expires_at ?? null,
+        thumbnailUrl: playbackUrls[index].thumbnail_url,
+        previewUrl: playbackUrls[index].preview_url,
+        errorMessage: null,
+      })
+    }
+    console.log(`[JOB-WORKER] 🎉 Video is now ready!`, { ...logContext, variants: completedVariants.length })
+
+    return { status: "completed", providerStatus: providerJob.providerStatus, progress: 100, videoUrl: playbackUrls[0]?.video_url || undefined }
+  } catch (error) {
+    // Unexpected (usually database) errors: leave the job to be retried
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[JOB-WORKER] ❌ Unexpected error processing job:`, { ...logContext, error: message })
+    await discardStoredVideos(unrecordedVideos)
+
+    try {
+      await rescheduleVideoJob(job.id, { attempts, last_error: message })
+    } catch (dbError) {
+      console.error(`[JOB-WORKER] ❌ Failed to release job, it will be reclaimed after the lock timeout:`, dbError)
+    }
+    return { status: "pending", error: message }
+  }
+}
+
+/**
+ * Claim and process one batch of due jobs, then submit queued batch items
+ * into the slots that freed up
+ * @returns The number of jobs processed
+ */
+export async function runVideoJobWorkerOnce(workerId: string = getWorkerId()) {
+  const jobs = await claimVideoJobs(workerId)
+  if (jobs.length > 0) {
+    console.log(`[JOB-WORKER] 📦 Claimed ${jobs.length} job(s)`)
+  }
+
+  await Promise.all(jobs.map((job) => processVideoJob(job)))
+
+  try {
+    await advanceVideoBatches()
+  } catch (error) {
+    console.error(`[JOB-WORKER] ❌ Failed to advance batches:`, error instanceof Error ? error.message : error)
+  }
+
+  return jobs.length
+}
+
+/**
+ * Recover work left behind by a previous process
+ */
+export async function resumeOrphanedVideoJobs(workerId: string = getWorkerId()) {
+  const released = await releaseOrphanedVideoJobs(workerId)
+  const enqueued = await enqueueUntrackedVideos(getCurrentProvider())
+
+  console.log(`[JOB-WORKER] 🔁 Resumed orphaned work:`, { releasedJobs: released, enqueuedVideos: enqueued })
+}
+
+// Keep a single worker per process, even across dev hot reloads
+const workerState = globalThis as typeof globalThis & { __videoJobWorker?: { timer: NodeJS.Timeout | null; stopped: boolean } }
+
+/**
+ * Start the in-process worker loop (long-running Node.js servers)
+ */
+export const startVideoJobWorker = () => {
+  if (workerState.__videoJobWorker && !workerState.__videoJobWorker.stopped) return
+
+  const state: { timer: NodeJS.Timeout | null; stopped: boolean } = { timer: null, stopped: false }
+  workerState.__videoJobWorker = state
+  const workerId = getWorkerId()
+
+  console.log(`[JOB-WORKER] 🚀 Starting video job worker:`, workerId)
+
+  const tick = async () => {
+    try {
+      await runVideoJobWorkerOnce(workerId)
+    } catch (error) {
+      console.error(`[JOB-WORKER] ❌ Worker tick failed:`, error instanceof Error ? error.message : error)
+    }
+    if (!state.stopped) {
+      state.timer = setTimeout(tick, JOB_QUEUE_CONFIG.workerTickMs)
+    }
+  }
+
+  resumeOrphanedVideoJobs(workerId)
+    .catch((error) => console.error(`[JOB-WORKER] ❌ Failed to resume orphaned jobs:`, error))
+    .finally(tick)
+}
+
+export const stopVideoJobWorker = () => {
+  const state = workerState.__videoJobWorker
+  if (!state) return
+
+  state.stopped = true
+  if (state.timer) clearTimeout(state.timer)
+  console.log(`[JOB-WORKER] ⏹️ Video job worker stopped`)
+}
@@ -0,0 +1,95 @@
+import type { Video } from "@/types/video"
+
+/**
+ * Remix lineage: a video, the remixes made from it and remixes of those
+ * remixes, linked by videos.parent_video_id
+ */
+
+// Remix chains are short; the limit only guards against cycles in bad data
+export const MAX_LINEAGE_DEPTH = 50
+
+export type LineageVideo = Pick<
+  Video,
+  "id" | "prompt" | "video_url" | "storage_path" | "video_url_expires_at" | "status" | "creation_type" | "created_at" | "parent_video_id"
+>
+
+export interface LineageNode {
+  video: LineageVideo
+  children: LineageNode[]
+}
+
+export type PromptDiffPart = { type: "same" | "added" | "removed"; text: string }
+
+/**
+ * Build the remix tree from the videos of one lineage
+ * @returns the root node, or null when rootId is not among the videos
+ */
+export const buildLineageTree = (videos: LineageVideo[], rootId: string): LineageNode | null => {
+  const childrenByParent = new Map<string, LineageVideo[]>()
+  videos.forEach((video) => {
+    if (!video.parent_video_id) return
+    const siblings = childrenByParent.get(video.parent_video_id) ?? []
+    siblings.push(video)
+    childrenByParent.set(video.parent_video_id, siblings)
+  })
+
+  const root = videos.find((video) => video.id === rootId)
+  if (!root) return null
+
+  const visited = new Set<string>()
+  const buildNode = (video: LineageVideo): LineageNode => {
+    visited.add(video.id)
+    const children = (childrenByParent.get(video.id) ?? [])
+      .filter((child) => !visited.has(child.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    return { video, children: children.map(buildNode) }
+  }
+
+  return buildNode(root)
+}
+
+/**
+ * Word-level diff of a remix prompt against its parent's prompt
+ */
+export const diffPrompts = (parentPrompt: string, prompt: string): PromptDiffPart[] => {
+  // Keep whitespace attached to the preceding word so the parts join back into the prompt
+  const tokenize = (text: string) => text.match(/\S+\s*/g) ?? []
+  const before = tokenize(parentPrompt)
+  const after = tokenize(prompt)
+  const same = (a: string, b: string) => a.trim() === b.trim()
+
+  // Longest common subsequence table, filled from the end
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: PromptDiffPart[] = []
+  const push = (type: PromptDiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (same(before[i], after[j])) {
+      push("same", after[j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", before[i++])
+    } else {
+      push("added", after[j++])
+    }
+  }
+  while (i < before.length) push("removed", before[i++])
+  while (j < after.length) push("added", after[j++])
+
+  return parts
+}
@@ -0,0 +1,369 @@
+/**
+ * Minimal MP4 generator for the mock Sora provider.
+ *
+ * Produces a playable H.264 (Constrained Baseline) video of a single solid
+ * color without any native encoder: the first macroblock of the IDR frame is
+ * coded as raw PCM samples and every other macroblock uses DC intra prediction
+ * with no residual, which spreads that color over the whole frame. All
+ * following frames are P frames made only of skipped macroblocks, so a clip
+ * at full resolution stays a few kilobytes.
+ */
+
+interface MockVideoOptions {
+  width: number
+  height: number
+  seconds: number
+  fps?: number
+  color?: { y: number; cb: number; cr: number }
+}
+
+const MP4_TIMESCALE = 1000
+const SAMPLE_DELTA = 100
+
+/**
+ * Bit writer for H.264 RBSP syntax (fixed-length and Exp-Golomb codes)
+ */
+class BitWriter {
+  private bytes: number[] = []
+  private current = 0
+  private bitCount = 0
+
+  writeBit(bit: number) {
+    this.current = (this.current << 1) | (bit & 1)
+    this.bitCount++
+    if (this.bitCount === 8) {
+      this.bytes.push(this.current)
+      this.current = 0
+      this.bitCount = 0
+    }
+  }
+
+  writeBits(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.writeBit((value >> i) & 1)
+    }
+  }
+
+  writeUE(value: number) {
+    const codeNum = value + 1
+    const length = Math.floor(Math.log2(codeNum))
+    this.writeBits(0, length)
+    this.writeBits(codeNum, length + 1)
+  }
+
+  writeSE(value: number) {
+    this.writeUE(value <= 0 ? -2 * value : 2 * value - 1)
+  }
+
+  alignZero() {
+    while (this.bitCount !== 0) this.writeBit(0)
+  }
+
+  writeByte(value: number) {
+    this.writeBits(value, 8)
+  }
+
+  finishRbsp(): Uint8Array {
+    // rbsp_stop_one_bit followed by alignment zero bits
+    this.writeBit(1)
+    this.alignZero()
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+/**
+ * Wrap an RBSP into a NAL unit, inserting emulation prevention bytes
+ */
+const toNalUnit = (nalRefIdc: number, nalUnitType: number, rbsp: Uint8Array): Uint8Array => {
+  const out: number[] = [(nalRefIdc << 5) | nalUnitType]
+  let zeros = 0
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      out.push(3)
+      zeros = 0
+    }
+    out.push(byte)
+    zeros = byte === 0 ? zeros + 1 : 0
+  }
+  return Uint8Array.from(out)
+}
+
+const LOG2_MAX_FRAME_NUM = 16
+const PROFILE_IDC = 66 // Baseline
+const CONSTRAINT_FLAGS = 0xc0 // constraint_set0 + constraint_set1 (Constrained Baseline)
+const LEVEL_IDC = 40
+
+const buildSps = (widthInMbs: number, heightInMbs: number, cropRight: number, cropBottom: number) => {
+  const bits = new BitWriter()
+  bits.writeByte(PROFILE_IDC)
+  bits.writeByte(CONSTRAINT_FLAGS)
+  bits.writeByte(LEVEL_IDC)
+  bits.writeUE(0) // seq_parameter_set_id
+  bits.writeUE(LOG2_MAX_FRAME_NUM - 4)
+  bits.writeUE(2) // pic_order_cnt_type
+  bits.writeUE(1) // max_num_ref_frames
+  bits.writeBit(0) // gaps_in_frame_num_value_allowed_flag
+  bits.writeUE(widthInMbs - 1)
+  bits.writeUE(heightInMbs - 1)
+  bits.writeBit(1) // frame_mbs_only_flag
+  bits.writeBit(1) // direct_8x8_inference_flag
+  if (cropRight || cropBottom) {
+    bits.writeBit(1) // frame_cropping_flag (offsets are in 2-pixel units for 4:2:0)
+    bits.writeUE(0)
+    bits.writeUE(cropRight / 2)
+    bits.writeUE(0)
+    bits.writeUE(cropBottom / 2)
+  } else {
+    bits.writeBit(0)
+  }
+  bits.writeBit(0) // vui_parameters_present_flag
+  return toNalUnit(3, 7, bits.finishRbsp())
+}
+
+const buildPps = () => {
+  const bits = new BitWriter()
+  bits.writeUE(0) // pic_parameter_set_id
+  bits.writeUE(0) // seq_parameter_set_id
+  bits.writeBit(0) // entropy_coding_mode_flag (CAVLC)
+  bits.writeBit(0) // bottom_field_pic_order_in_frame_present_flag
+  bits.writeUE(0) // num_slice_groups_minus1
+  bits.writeUE(0) // num_ref_idx_l0_default_active_minus1
+  bits.writeUE(0) // num_ref_idx_l1_default_active_minus1
+  bits.writeBit(0) // weighted_pred_flag
+  bits.writeBits(0, 2) // weighted_bipred_idc
+  bits.writeSE(0) // pic_init_qp_minus26
+  bits.writeSE(0) // pic_init_qs_minus26
+  bits.writeSE(0) // chroma_qp_index_offset
+  bits.writeBit(0) // deblocking_filter_control_present_flag
+  bits.writeBit(0) // constrained_intra_pred_flag
+  bits.writeBit(0) // redundant_pic_cnt_present_flag
+  return toNalUnit(3, 8, bits.finishRbsp())
+}
+
+const MB_TYPE_I16X16_DC_NO_RESIDUAL = 3
+const MB_TYPE_I_PCM = 25
+
+const buildIdrSlice = (widthInMbs: number, heightInMbs: number, color: { y: number; cb: number; cr: number }) => {
+  const bits = new BitWriter()
+  bits.writeUE(0) // first_mb_in_slice
+  bits.writeUE(7) // slice_type (I, all slices)
+  bits.writeUE(0) // pic_parameter_set_id
+  bits.writeBits(0, LOG2_MAX_FRAME_NUM) // frame_num
+  bits.writeUE(0) // idr_pic_id
+  bits.writeBit(0) // no_output_of_prior_pics_flag
+  bits.writeBit(0) // long_term_reference_flag
+  bits.writeSE(0) // slice_qp_delta
+
+  for (let mbY = 0; mbY < heightInMbs; mbY++) {
+    for (let mbX = 0; mbX < widthInMbs; mbX++) {
+      if (mbX === 0 && mbY === 0) {
+        bits.writeUE(MB_TYPE_I_PCM)
+        bits.alignZero()
+        for (let i = 0; i < 256; i++) bits.writeByte(color.y)
+        for (let i = 0; i < 64; i++) bits.writeByte(color.cb)
+        for (let i = 0; i < 64; i++) bits.writeByte(color.cr)
+        continue
+      }
+
+      bits.writeUE(MB_TYPE_I16X16_DC_NO_RESIDUAL)
+      bits.writeUE(0) // intra_chroma_pred_mode (DC)
+      bits.writeSE(0) // mb_qp_delta
+
+      // Intra16x16DCLevel coeff_token for TotalCoeff = 0. Neighbours of the PCM
+      // macroblock count as 16 coefficients, which selects the fixed-length table.
+      const touchesPcm = (mbX === 1 && mbY === 0) || (mbX === 0 && mbY === 1)
+      if (touchesPcm) {
+        bits.writeBits(0b000011, 6)
+      } else {
+        bits.writeBit(1)
+      }
+    }
+  }
+
+  return toNalUnit(3, 5, bits.finishRbsp())
+}
+
+const buildSkipSlice = (frameNum: number, mbCount: number) => {
+  const bits = new BitWriter()
+  bits.writeUE(0) // first_mb_in_slice
+  bits.writeUE(5) // slice_type (P, all slices)
+  bits.writeUE(0) // pic_parameter_set_id
+  bits.writeBits(frameNum % (1 << LOG2_MAX_FRAME_NUM), LOG2_MAX_FRAME_NUM)
+  bits.writeBit(0) // num_ref_idx_active_override_flag
+  bits.writeBit(0) // ref_pic_list_modification_flag_l0
+  bits.writeBit(0) // adaptive_ref_pic_marking_mode_flag
+  bits.writeSE(0) // slice_qp_delta
+  bits.writeUE(mbCount) // mb_skip_run
+  return toNalUnit(2, 1, bits.finishRbsp())
+}
+
+/**
+ * Byte buffer helpers for writing ISO BMFF boxes
+ */
+const u8 = (value: number) => [value & 0xff]
+const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff]
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+const ascii = (text: string) => Array.from(text).map((char) => char.charCodeAt(0))
+const zeros = (count: number) => new Array<number>(count).fill(0)
+
+const box = (type: string, ...payload: (number[] | Uint8Array)[]): number[] => {
+  const body = payload.flatMap((part) => Array.from(part))
+  return [...u32(body.length + 8), ...ascii(type), ...body]
+}
+
+const fullBox = (type: string, version: number, flags: number, ...payload: (number[] | Uint8Array)[]) =>
+  box(type, [version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff], ...payload)
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].flatMap(u32)
+
+const buildMoov = (
+  width: number,
+  height: number,
+  fps: number,
+  sampleSizes: number[],
+  chunkOffset: number,
+  sps: Uint8Array,
+  pps: Uint8Array
+) => {
+  const mediaTimescale = fps * SAMPLE_DELTA
+  const mediaDuration = sampleSizes.length * SAMPLE_DELTA
+  const movieDuration = Math.round((sampleSizes.length / fps) * MP4_TIMESCALE)
+
+  const avcC = box(
+    "avcC",
+    u8(1),
+    u8(PROFILE_IDC),
+    u8(CONSTRAINT_FLAGS),
+    u8(LEVEL_IDC),
+    u8(0xff), // lengthSizeMinusOne = 3
+    u8(0xe1), // one SPS
+    u16(sps.length),
+    sps,
+    u8(1), // one PPS
+    u16(pps.length),
+    pps
+  )
+
+  const avc1 = box(
+    "avc1",
+    zeros(6),
+    u16(1), // data_reference_index
+    zeros(16),
+    u16(width),
+    u16(height),
+    u32(0x00480000),
+    u32(0x00480000),
+    u32(0),
+    u16(1), // frame_count
+    zeros(32), // compressorname
+    u16(0x0018),
+    u16(0xffff),
+    avcC
+  )
+
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), avc1),
+    fullBox("stts", 0, 0, u32(1), u32(sampleSizes.length), u32(SAMPLE_DELTA)),
+    fullBox("stss", 0, 0, u32(1), u32(1)),
+    fullBox("stsc", 0, 0, u32(1), u32(1), u32(sampleSizes.length), u32(1)),
+    fullBox("stsz", 0, 0, u32(0), u32(sampleSizes.length), sampleSizes.flatMap(u32)),
+    fullBox("stco", 0, 0, u32(1), u32(chunkOffset))
+  )
+
+  const minf = box(
+    "minf",
+    fullBox("vmhd", 0, 1, zeros(8)),
+    box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+    stbl
+  )
+
+  const mdia = box(
+    "mdia",
+    fullBox("mdhd", 0, 0, u32(0), u32(0), u32(mediaTimescale), u32(mediaDuration), u16(0x55c4), u16(0)),
+    fullBox("hdlr", 0, 0, u32(0), ascii("vide"), zeros(12), ascii("VideoHandler"), u8(0)),
+    minf
+  )
+
+  const trak = box(
+    "trak",
+    fullBox(
+      "tkhd", 0, 3,
+      u32(0), u32(0), // creation/modification time
+      u32(1), // track_ID
+      u32(0),
+      u32(movieDuration),
+      zeros(8),
+      u16(0), u16(0), u16(0), u16(0), // layer, alternate_group, volume, reserved
+      IDENTITY_MATRIX,
+      u32(width << 16),
+      u32(height << 16)
+    ),
+    mdia
+  )
+
+  return box(
+    "moov",
+    fullBox(
+      "mvhd", 0, 0,
+      u32(0), u32(0),
+      u32(MP4_TIMESCALE),
+      u32(movieDuration),
+      u32(0x00010000), // rate
+      u16(0x0100), // volume
+      zeros(10),
+      IDENTITY_MATRIX,
+      zeros(24),
+      u32(2) // next_track_ID
+    ),
+    trak
+  )
+}
+
+/**
+ * Generate a solid color H.264 MP4 with the requested dimensions and duration
+ */
+export const generateMockMp4 = ({ width, height, seconds, fps = 24, color = { y: 81, cb: 90, cr: 240 } }: MockVideoOptions) => {
+  const widthInMbs = Math.ceil(width / 16)
+  const heightInMbs = Math.ceil(height / 16)
+  const mbCount = widthInMbs * heightInMbs
+  const frameCount = Math.max(1, Math.round(seconds * fps))
+
+  const sps = buildSps(widthInMbs, heightInMbs, widthInMbs * 16 - width, heightInMbs * 16 - height)
+  const pps = buildPps()
+
+  // Each sample is a sequence of 4-byte length prefixed NAL units
+  const samples: number[][] = []
+  for (let frame = 0; frame < frameCount; frame++) {
+    const nalUnits = frame === 0
+      ? [sps, pps, buildIdrSlice(widthInMbs, heightInMbs, color)]
+      : [buildSkipSlice(frame, mbCount)]
+    samples.push(nalUnits.flatMap((nal) => [...u32(nal.length), ...Array.from(nal)]))
+  }
+
+  const sampleSizes = samples.map((sample) => sample.length)
+  const ftyp = box("ftyp", ascii("isom"), u32(512), ascii("isom"), ascii("iso2"), ascii("avc1"), ascii("mp41"))
+
+  // The moov size does not depend on the chunk offset value, so build it once to measure
+  const moovSize = buildMoov(width, height, fps, sampleSizes, 0, sps, pps).length
+  const moov = buildMoov(width, height, fps, sampleSizes, ftyp.length + moovSize + 8, sps, pps)
+  const mdat = box("mdat", samples.flat())
+
+  return new Uint8Array([...ftyp, ...moov, ...mdat])
+}
+
+/**
+ * Derive a stable YCbCr color from a string (e.g. the prompt)
+ */
+export const colorFromText = (text: string) => {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0
+  }
+  // Keep samples inside the nominal video range and away from 0
+  return {
+    y: 60 + (Math.abs(hash) % 120),
+    cb: 40 + (Math.abs(hash >> 8) % 176),
+    cr: 40 + (Math.abs(hash >> 16) % 176),
+  }
+}
@@ -0,0 +1,144 @@
+import { getCurrentProvider } from "@/lib/provider-config"
+
+/**
+ * In-memory job store for the mock Sora API (AI_PROVIDER=mock)
+ *
+ * Jobs advance through queued → in_progress → completed/failed based on the
+ * time elapsed since creation, so no timers are needed. Timing is configurable:
+ * - MOCK_SORA_QUEUE_MS: time spent queued (default 2000)
+ * - MOCK_SORA_DURATION_MS: time spent in progress (default 15000)
+ * - MOCK_SORA_FAILURE_RATE: probability (0-1) that a job fails (default 0)
+ * Including "[mock:fail]" in a prompt always makes the job fail.
+ *
+ * The store keeps at most MOCK_JOB_LIMIT jobs, each for MOCK_JOB_TTL_MS.
+ */
+
+export const MOCK_SIZES = ["1280x720", "720x1280", "1024x1792", "1792x1024"]
+export const MOCK_SECONDS = ["4", "8", "12"]
+
+const MOCK_JOB_LIMIT = 1000
+const MOCK_JOB_TTL_MS = 60 * 60 * 1000
+
+/**
+ * The mock API is only served when it is the configured provider
+ */
+export const isMockApiEnabled = () => getCurrentProvider() === "mock"
+
+export interface MockVideoJob {
+  id: string
+  model: string
+  prompt: string
+  seconds: string
+  size: string
+  createdAt: number
+  willFail: boolean
+  remixedFromVideoId: string | null
+}
+
+export type MockJobStatus = "queued" | "in_progress" | "completed" | "failed"
+
+const readNumberEnv = (name: string, fallback: number) => {
+  const raw = process.env[name]
+  if (raw === undefined || raw === "") return fallback
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : fallback
+}
+
+export const getMockTiming = () => ({
+  queueMs: readNumberEnv("MOCK_SORA_QUEUE_MS", 2000),
+  durationMs: readNumberEnv("MOCK_SORA_DURATION_MS", 15000),
+  failureRate: readNumberEnv("MOCK_SORA_FAILURE_RATE", 0),
+})
+
+// Keep jobs on globalThis so every route module (and dev hot reloads) share one store
+const globalStore = globalThis as typeof globalThis & { __mockSoraJobs?: Map<string, MockVideoJob> }
+const jobs = globalStore.__mockSoraJobs ?? (globalStore.__mockSoraJobs = new Map<string, MockVideoJob>())
+
+/**
+ * Drop expired jobs, then the oldest ones while the store is full
+ */
+const pruneMockJobs = (now = Date.now()) => {
+  // Maps iterate in insertion order, so the oldest jobs come first
+  for (const [id, job] of jobs) {
+    if (now - job.createdAt < MOCK_JOB_TTL_MS && jobs.size < MOCK_JOB_LIMIT) break
+    jobs.delete(id)
+  }
+}
+
+export const createMockJob = (input: {
+  model: string
+  prompt: string
+  seconds: string
+  size: string
+  remixedFromVideoId?: string | null
+}): MockVideoJob => {
+  const { failureRate } = getMockTiming()
+  const job: MockVideoJob = {
+    id: `video_mock_${crypto.randomUUID().replace(/-/g, "")}`,
+    model: input.model,
+    prompt: input.prompt,
+    seconds: input.seconds,
+    size: input.size,
+    createdAt: Date.now(),
+    willFail: input.prompt.includes("[mock:fail]") || Math.random() < failureRate,
+    remixedFromVideoId: input.remixedFromVideoId ?? null,
+  }
+  pruneMockJobs(job.createdAt)
+  jobs.set(job.id, job)
+  return job
+}
+
+export const getMockJob = (id: string) => jobs.get(id) ?? null
+
+export const deleteMockJob = (id: string) => jobs.delete(id)
+
+/**
+ * Compute the current status and progress of a job from its age
+ */
+export const getMockJobState = (job: MockVideoJob, now = Date.now()): { status: MockJobStatus; progress: number } => {
+  const { queueMs, durationMs } = getMockTiming()
+  const elapsed = now - job.createdAt
+
+  if (elapsed < queueMs) {
+    return { status: "queued", progress: 0 }
+  }
+
+  const progress = durationMs <= 0 ? 100 : Math.min(100, Math.floor(((elapsed - queueMs) / durationMs) * 100))
+
+  // Failing jobs give up halfway through
+  if (job.willFail && progress >= 50) {
+    return { status: "failed", progress: 50 }
+  }
+
+  return progress >= 100 ? { status: "completed", progress: 100 } : { status: "in_progress", progress }
+}
+
+/**
+ * Serialize a job the way the OpenAI Videos API does
+ */
+export const toVideoObject = (job: MockVideoJob) => {
+  const { status, progress } = getMockJobState(job)
+  const { queueMs, durationMs } = getMockTiming()
+
+  return {
+    id: job.id,
+    object: "video",
+    model: job.model,
+    status,
+    progress,
+    created_at: Math.floor(job.createdAt / 1000),
+    completed_at: status === "completed" ? Math.floor((job.createdAt + queueMs + durationMs) / 1000) : null,
+    expires_at: null,
+    size: job.size,
+    seconds: job.seconds,
+    remixed_from_video_id: job.remixedFromVideoId,
+    error: status === "failed" ? { code: "mock_generation_failed", message: "The mock provider was configured to fail this job" } : null,
+  }
+}
+
+/**
+ * OpenAI-style error body
+ */
+export const mockError = (message: string, code = "invalid_request") => ({
+  error: { message, type: "invalid_request_error", code },
+})
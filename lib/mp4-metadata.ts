@@ -0,0 +1,196 @@
+import { parseVideoSize } from "@/lib/generation-options"
+
+/**
+ * Technical metadata read from the MP4 container of a generated video, to
+ * check that the provider returned what was requested
+ */
+
+export interface VideoMediaMetadata {
+  duration_seconds: number | null
+  width: number | null
+  height: number | null
+  frame_rate: number | null
+  video_codec: string | null
+  audio_codec: string | null
+  has_audio: boolean
+  // Average over the whole file, in bits per second
+  bitrate: number | null
+  file_size: number
+}
+
+// Provider clips end on a frame boundary, so their length is never exact
+export const DURATION_TOLERANCE_SECONDS = 0.5
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "H.265",
+  hev1: "H.265",
+  av01: "AV1",
+  vp09: "VP9",
+  mp4a: "AAC",
+  "ac-3": "AC-3",
+  "ec-3": "E-AC-3",
+  Opus: "Opus",
+}
+
+interface Mp4Box {
+  type: string
+  // Content, after the box header
+  start: number
+  end: number
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals
+
+/**
+ * Read duration, dimensions, frame rate, codecs and bitrate from an MP4 file
+ * @param bytes - The file, or just its moov box
+ * @param fileSize - Size of the whole file when bytes only hold its moov box
+ * @returns null when the file is not an MP4 or has no movie header
+ */
+export const readMp4Metadata = (bytes: Uint8Array, fileSize = bytes.length): VideoMediaMetadata | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+  const readBoxes = (start: number, end: number) => {
+    const boxes: Mp4Box[] = []
+    let offset = start
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset)
+      let header = 8
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8))
+        header = 16
+      } else if (size === 0) {
+        // Box runs to the end of its parent
+        size = end - offset
+      }
+      if (size < header || offset + size > end) break
+      boxes.push({ type: ascii(offset + 4, 4), start: offset + header, end: offset + size })
+      offset += size
+    }
+    return boxes
+  }
+
+  const findBox = (parent: Mp4Box | undefined, ...path: string[]): Mp4Box | undefined =>
+    path.reduce<Mp4Box | undefined>(
+      (box, type) => box && readBoxes(box.start, box.end).find((child) => child.type === type),
+      parent
+    )
+
+  // mvhd and mdhd share their layout: version 1 uses 64-bit times
+  const readTimescaleAndDuration = (box: Mp4Box) => {
+    const version = bytes[box.start]
+    return version === 1
+      ? { timescale: view.getUint32(box.start + 20), duration: Number(view.getBigUint64(box.start + 24)) }
+      : { timescale: view.getUint32(box.start + 12), duration: view.getUint32(box.start + 16) }
+  }
+
+  try {
+    const moov = readBoxes(0, bytes.length).find((box) => box.type === "moov")
+    const mvhd = findBox(moov, "mvhd")
+    if (!moov || !mvhd) return null
+
+    const movie = readTimescaleAndDuration(mvhd)
+    const metadata: VideoMediaMetadata = {
+      duration_seconds: movie.timescale ? round(movie.duration / movie.timescale, 3) : null,
+      width: null,
+      height: null,
+      frame_rate: null,
+      video_codec: null,
+      audio_codec: null,
+      has_audio: false,
+      bitrate: null,
+      file_size: fileSize,
+    }
+
+    for (const trak of readBoxes(moov.start, moov.end).filter((box) => box.type === "trak")) {
+      const hdlr = findBox(trak, "mdia", "hdlr")
+      const mdhd = findBox(trak, "mdia", "mdhd")
+      const stsd = findBox(trak, "mdia", "minf", "stbl", "stsd")
+      if (!hdlr) continue
+
+      const handler = ascii(hdlr.start + 8, 4)
+      const codec = stsd && view.getUint32(stsd.start + 4) > 0 ? ascii(stsd.start + 12, 4) : null
+      const codecName = codec ? CODEC_NAMES[codec] ?? codec : null
+
+      if (handler === "soun") {
+        metadata.has_audio = true
+        metadata.audio_codec ??= codecName
+      }
+
+      if (handler !== "vide" || metadata.video_codec) continue
+      metadata.video_codec = codecName
+
+      // Track dimensions are 16.16 fixed point, after the matrix
+      const tkhd = findBox(trak, "tkhd")
+      if (tkhd) {
+        const dimensionsOffset = tkhd.start + (bytes[tkhd.start] === 1 ? 88 : 76)
+        metadata.width = Math.round(view.getUint32(dimensionsOffset) / 65536)
+        metadata.height = Math.round(view.getUint32(dimensionsOffset + 4) / 65536)
+      }
+
+      // Frame rate: samples (frames) over the media duration
+      const stts = findBox(trak, "mdia", "minf", "stbl", "stts")
+      if (stts && mdhd) {
+        const media = readTimescaleAndDuration(mdhd)
+        let frames = 0
+        const entries = view.getUint32(stts.start + 4)
+        for (let index = 0; index < entries; index++) {
+          frames += view.getUint32(stts.start + 8 + index * 8)
+        }
+        if (frames > 0 && media.duration > 0 && media.timescale > 0) {
+          metadata.frame_rate = round(frames / (media.duration / media.timescale), 2)
+        }
+      }
+    }
+
+    if (metadata.duration_seconds) {
+      metadata.bitrate = Math.round((fileSize * 8) / metadata.duration_seconds)
+    }
+
+    return metadata
+  } catch {
+    // Truncated or malformed boxes
+    return null
+  }
+}
+
+/**
+ * Differences between the probed file and the requested duration and size
+ * @returns one message per mismatch
+ */
+export const getMediaMismatches = (
+  metadata: VideoMediaMetadata | null | undefined,
+  requested: { seconds?: string | null; size?: string | null }
+): string[] => {
+  if (!metadata) return []
+  const mismatches: string[] = []
+
+  const seconds = Number(requested.seconds)
+  if (seconds && metadata.duration_seconds !== null && Math.abs(metadata.duration_seconds - seconds) > DURATION_TOLERANCE_SECONDS) {
+    mismatches.push(`Duration is ${metadata.duration_seconds}s instead of ${seconds}s`)
+  }
+
+  const size = parseVideoSize(requested.size)
+  if (size && metadata.width !== null && metadata.height !== null && (metadata.width !== size.width || metadata.height !== size.height)) {
+    mismatches.push(`Size is ${metadata.width}x${metadata.height} instead of ${size.width}x${size.height}`)
+  }
+
+  return mismatches
+}
+
+/**
+ * Human readable rows (label, value) for the probed metadata
+ */
+export const formatMediaMetadata = (metadata: VideoMediaMetadata): [string, string][] => [
+  ["Duration", metadata.duration_seconds !== null ? `${metadata.duration_seconds}s` : "—"],
+  ["Resolution", metadata.width && metadata.height ? `${metadata.width}x${metadata.height}` : "—"],
+  ["Frame rate", metadata.frame_rate !== null ? `${metadata.frame_rate} fps` : "—"],
+  ["Video codec", metadata.video_codec ?? "—"],
+  ["Audio", metadata.has_audio ? metadata.audio_codec ?? "Yes" : "None"],
+  ["Bitrate", metadata.bitrate !== null ? `${(metadata.bitrate / 1_000_000).toFixed(2)} Mbps` : "—"],
+  ["File size", `${(metadata.file_size / 1024 / 1024).toFixed(2)} MB`],
+]
@@ -0,0 +1,74 @@
+import { z } from "zod"
+import { BATCH_LIMITS } from "@/lib/batches"
+
+/**
+ * Prompt templates: prompts with {{variable}} placeholders.
+ * Shared by the template picker (live preview) and /api/templates.
+ */
+
+export interface PromptTemplate {
+  id: string
+  user_id: string | null
+  name: string
+  body: string
+  created_at: string
+  updated_at: string
+}
+
+export type TemplateValues = Record<string, string>
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g
+
+export const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  body: z
+    .string()
+    .trim()
+    .min(1, "Template text is required")
+    .max(BATCH_LIMITS.maxPromptLength, `Template text must be at most ${BATCH_LIMITS.maxPromptLength} characters`),
+})
+
+/**
+ * Variable names of a template, in order of first appearance
+ */
+export const extractTemplateVariables = (body: string): string[] =>
+  [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]))]
+
+/**
+ * Value of a variable; only own keys count, so variables named like
+ * Object.prototype members (e.g. {{constructor}}) have no value by default
+ */
+export const getTemplateValue = <T>(values: Record<string, T>, name: string): T | undefined =>
+  Object.hasOwn(values, name) ? values[name] : undefined
+
+/**
+ * Substitute variables; variables without a value are left as placeholders
+ */
+export const renderTemplate = (body: string, values: TemplateValues): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => getTemplateValue(values, name)?.trim() || placeholder)
+
+/**
+ * Variables of a template that have no value
+ */
+export const getMissingTemplateVariables = (body: string, values: TemplateValues): string[] =>
+  extractTemplateVariables(body).filter((name) => !getTemplateValue(values, name)?.trim())
+
+/**
+ * Number of combinations expandTemplateValues gives, without building them
+ */
+export const countTemplateCombinations = (valueLists: Record<string, string[]>): number =>
+  Object.values(valueLists).reduce((count, values) => {
+    const options = values.filter((value) => value.trim()).length
+    return options === 0 ? count : count * options
+  }, 1)
+
+/**
+ * Every combination of the given values, e.g. { subject: ["a cat", "a dog"],
+ * location: ["Paris"] } gives two value sets. Blank values are ignored.
+ */
+export const expandTemplateValues = (valueLists: Record<string, string[]>): TemplateValues[] =>
+  Object.entries(valueLists).reduce<TemplateValues[]>((combinations, [name, values]) => {
+    const options = values.map((value) => value.trim()).filter(Boolean)
+    if (options.length === 0) return combinations
+    return combinations.flatMap((combination) => options.map((value) => ({ ...combination, [name]: value })))
+  }, [{}])
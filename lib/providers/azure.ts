@@ -0,0 +1,112 @@
+import { getAzureConfig, type AzureConfig } from "./config"
+import { formatJobError, normalizeJobStatus, throwProviderError, toProviderContent } from "./shared"
+import { UnsupportedProviderOperationError } from "./types"
+import type { CreateVideoJobInput, ProviderJob, VideoProvider } from "./types"
+
+/**
+ * Azure OpenAI endpoint URLs for a given configuration
+ */
+const buildAzureUrls = ({ endpoint, apiVersion }: AzureConfig) => ({
+  generateUrl: `${endpoint}/video/generations/jobs?api-version=${apiVersion}`,
+  statusUrl: (jobId: string) => `${endpoint}/video/generations/jobs/${jobId}?api-version=${apiVersion}`,
+  contentUrl: (generationId: string) => `${endpoint}/video/generations/${generationId}/content/video?api-version=${apiVersion}`,
+})
+
+/**
+ * Normalize an Azure video generation job
+ */
+const toProviderJob = (data: any): ProviderJob => {
+  const status = normalizeJobStatus(data.status)
+  return {
+    id: data.id,
+    status,
+    providerStatus: data.status || "unknown",
+    progress: typeof data.progress === "number" ? data.progress : null,
+    errorMessage: status === "failed" ? formatJobError(data.error || data.failure_reason) : null,
+    generationIds: (data.generations ?? []).map((generation: { id: string }) => generation.id),
+    model: data.model || null,
+  }
+}
+
+/**
+ * Azure OpenAI video generation jobs adapter (/video/generations/jobs)
+ * Configured with AZURE_OPENAI_ENDPOINT, AZURE_API_KEY, AZURE_API_VERSION and
+ * AZURE_OPENAI_DEPLOYMENT (the deployment name is sent as the model).
+ */
+export const createAzureProvider = (): VideoProvider => {
+  const config = getAzureConfig()
+  const urls = buildAzureUrls(config)
+  const headers = {
+    "Content-Type": "application/json",
+    "api-key": config.apiKey,
+  }
+
+  return {
+    name: "azure",
+    capabilities: {
+      remix: false,
+      inputReference: false,
+      cancel: true,
+      maxVariants: 4,
+    },
+
+    async createJob({ prompt, seconds, size, variants = 1 }: CreateVideoJobInput) {
+      const [width, height] = size.split("x").map(Number)
+
+      const response = await fetch(urls.generateUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          prompt,
+          n_variants: variants,
+          n_seconds: parseInt(seconds),
+          height,
+          width,
+          model: config.deployment,
+        }),
+      })
+
+      if (!response.ok) await throwProviderError(response, "generate video")
+      return toProviderJob(await response.json())
+    },
+
+    async getStatus(jobId: string) {
+      const response = await fetch(urls.statusUrl(jobId), {
+        method: "GET",
+        headers,
+      })
+
+      if (!response.ok) await throwProviderError(response, "fetch video status")
+      return toProviderJob(await response.json())
+    },
+
+    async downloadContent(job: ProviderJob, variantIndex = 0) {
+      const generationId = job.generationIds[variantIndex]
+      if (!generationId) {
+        throw new Error(`No generations found for job: ${job.id}`)
+      }
+
+      const response = await fetch(urls.contentUrl(generationId), {
+        method: "GET",
+        headers,
+      })
+
+      if (!response.ok) await throwProviderError(response, "download video content")
+      return toProviderContent(response)
+    },
+
+    async remix() {
+      throw new UnsupportedProviderOperationError("azure", "Remix functionality")
+    },
+
+    // Deleting a job that is still running cancels it
+    async cancel(jobId: string) {
+      const response = await fetch(urls.statusUrl(jobId), {
+        method: "DELETE",
+        headers,
+      })
+
+      if (!response.ok) await throwProviderError(response, "cancel video")
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from "zod"
+import { parseEnvConfig } from "@/lib/env-config"
+
+/**
+ * Validated environment configuration for the provider adapters.
+ * Missing or malformed values raise a ProviderConfigError naming the variables,
+ * which surfaces at server startup (see instrumentation.ts).
+ */
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderConfigError'
+  }
+}
+
+const openAIEnvSchema = z.object({
+  OPENAI_API_KEY: z.string({ required_error: "is required" }).min(1, "is required"),
+})
+
+const azureEnvSchema = z.object({
+  AZURE_OPENAI_ENDPOINT: z.string({ required_error: "is required" }).url("must be a valid URL"),
+  AZURE_API_KEY: z.string({ required_error: "is required" }).min(1, "is required"),
+  AZURE_API_VERSION: z.string().min(1).default("preview"),
+  AZURE_OPENAI_DEPLOYMENT: z.string({ required_error: "is required" }).min(1, "is required"),
+})
+
+export interface OpenAIConfig {
+  apiKey: string
+}
+
+export interface AzureConfig {
+  endpoint: string // Base URL ending in /openai/v1
+  apiKey: string
+  apiVersion: string
+  deployment: string
+}
+
+export const getOpenAIConfig = (): OpenAIConfig => {
+  const env = parseEnvConfig(openAIEnvSchema, "openai provider", ProviderConfigError)
+  return { apiKey: env.OPENAI_API_KEY }
+}
+
+export const getAzureConfig = (): AzureConfig => {
+  const env = parseEnvConfig(azureEnvSchema, "azure provider", ProviderConfigError)
+
+  // Accept either the resource URL or the full /openai/v1 base URL
+  let endpoint = env.AZURE_OPENAI_ENDPOINT.replace(/\/+$/, "")
+  if (!endpoint.endsWith("/openai/v1")) {
+    endpoint = `${endpoint}/openai/v1`
+  }
+
+  return {
+    endpoint,
+    apiKey: env.AZURE_API_KEY,
+    apiVersion: env.AZURE_API_VERSION,
+    deployment: env.AZURE_OPENAI_DEPLOYMENT,
+  }
+}
@@ -0,0 +1,63 @@
+import { getCurrentProvider } from "@/lib/provider-config"
+import { createAzureProvider } from "./azure"
+import { createMockProvider } from "./mock"
+import { createOpenAIProvider } from "./openai"
+import type { VideoProvider, VideoProviderFactory } from "./types"
+
+export * from "./types"
+export { ProviderConfigError } from "./config"
+
+/**
+ * Registry of available video providers keyed by AI_PROVIDER value.
+ * Adding a backend means writing an adapter and registering it here.
+ */
+const providerRegistry = new Map<string, VideoProviderFactory>()
+
+export const registerVideoProvider = (name: string, factory: VideoProviderFactory) => {
+  providerRegistry.set(name, factory)
+}
+
+registerVideoProvider("openai", () => createOpenAIProvider())
+registerVideoProvider("azure", createAzureProvider)
+registerVideoProvider("mock", createMockProvider)
+
+/**
+ * Get the adapter for the configured (or explicitly named) provider
+ */
+export const getVideoProvider = (name: string = getCurrentProvider()): VideoProvider => {
+  const factory = providerRegistry.get(name)
+  if (!factory) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Available providers: ${getRegisteredProviders().join(", ")}`)
+  }
+  return factory()
+}
+
+export const getRegisteredProviders = () => Array.from(providerRegistry.keys())
+
+/**
+ * Fail fast on a missing or invalid provider configuration.
+ * Called once at server startup from instrumentation.ts.
+ */
+export const validateProviderConfiguration = (name: string = getCurrentProvider()) => {
+  const provider = getVideoProvider(name)
+  console.log(`[PROVIDER] ✅ Using ${provider.name.toUpperCase()} video provider`)
+}
+
+/**
+ * Cancel a provider job that no video records, e.g. because saving the video
+ * failed, so it does not keep running (and billing) unseen. Never throws;
+ * jobs of providers without cancel support are only logged.
+ */
+export const cancelUntrackedJob = async (provider: VideoProvider, jobId: string) => {
+  if (!provider.capabilities.cancel) {
+    console.warn(`[PROVIDER] ⚠️ Untracked ${provider.name.toUpperCase()} job cannot be cancelled:`, jobId)
+    return
+  }
+
+  try {
+    await provider.cancel(jobId)
+    console.log(`[PROVIDER] 🚫 Cancelled untracked ${provider.name.toUpperCase()} job:`, jobId)
+  } catch (error) {
+    console.error(`[PROVIDER] ❌ Failed to cancel untracked ${provider.name.toUpperCase()} job:`, { jobId, error })
+  }
+}
@@ -0,0 +1,16 @@
+import { createOpenAIProvider } from "./openai"
+import type { VideoProvider } from "./types"
+
+/**
+ * Mock provider for offline development and tests (AI_PROVIDER=mock).
+ * Talks to the OpenAI-compatible stand-in served from /api/mock-sora/v1.
+ */
+export const getMockBaseUrl = () =>
+  process.env.MOCK_SORA_BASE_URL || `http://localhost:${process.env.PORT || 3000}/api/mock-sora/v1`
+
+export const createMockProvider = (): VideoProvider =>
+  createOpenAIProvider({
+    name: "mock",
+    baseUrl: getMockBaseUrl(),
+    apiKey: "mock",
+  })
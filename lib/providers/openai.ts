@@ -0,0 +1,127 @@
+import { getOpenAIConfig } from "./config"
+import { formatJobError, normalizeJobStatus, throwProviderError, toProviderContent } from "./shared"
+import type { CreateVideoJobInput, ProviderJob, RemixVideoJobInput, VideoProvider } from "./types"
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1"
+
+interface OpenAIProviderOptions {
+  name?: string
+  baseUrl?: string
+  apiKey?: string
+}
+
+/**
+ * OpenAI Videos API endpoint URLs for a base URL
+ */
+const buildOpenAIUrls = (baseUrl: string) => ({
+  generateUrl: `${baseUrl}/videos`,
+  statusUrl: (jobId: string) => `${baseUrl}/videos/${jobId}`,
+  contentUrl: (jobId: string) => `${baseUrl}/videos/${jobId}/content`,
+  remixUrl: (jobId: string) => `${baseUrl}/videos/${jobId}/remix`,
+})
+
+/**
+ * Normalize an OpenAI video object
+ */
+const toProviderJob = (data: any): ProviderJob => {
+  const status = normalizeJobStatus(data.status)
+  return {
+    id: data.id,
+    status,
+    providerStatus: data.status || "unknown",
+    progress: typeof data.progress === "number" ? data.progress : null,
+    errorMessage: status === "failed" ? formatJobError(data.error) : null,
+    generationIds: [],
+    model: data.model || null,
+  }
+}
+
+/**
+ * OpenAI Videos API adapter (/v1/videos)
+ */
+export const createOpenAIProvider = (options: OpenAIProviderOptions = {}): VideoProvider => {
+  const urls = buildOpenAIUrls(options.baseUrl || OPENAI_BASE_URL)
+  const authHeaders = {
+    Authorization: `Bearer ${options.apiKey ?? getOpenAIConfig().apiKey}`,
+  }
+
+  return {
+    name: options.name || "openai",
+    capabilities: {
+      remix: true,
+      inputReference: true,
+      cancel: true,
+      maxVariants: 1,
+    },
+
+    async createJob({ prompt, model, seconds, size, inputReference }: CreateVideoJobInput) {
+      let response: Response
+
+      if (inputReference) {
+        const formData = new FormData()
+        formData.append("model", model)
+        formData.append("prompt", prompt)
+        formData.append("seconds", seconds)
+        formData.append("size", size)
+        formData.append("input_reference", inputReference)
+
+        // Don't set Content-Type for FormData - let fetch set it with boundary
+        response = await fetch(urls.generateUrl, {
+          method: "POST",
+          headers: authHeaders,
+          body: formData,
+        })
+      } else {
+        response = await fetch(urls.generateUrl, {
+          method: "POST",
+          headers: { ...authHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ model, prompt, seconds, size }),
+        })
+      }
+
+      if (!response.ok) await throwProviderError(response, "generate video")
+      return toProviderJob(await response.json())
+    },
+
+    async getStatus(jobId: string) {
+      const response = await fetch(urls.statusUrl(jobId), {
+        method: "GET",
+        headers: authHeaders,
+      })
+
+      if (!response.ok) await throwProviderError(response, "fetch video status")
+      return toProviderJob(await response.json())
+    },
+
+    async downloadContent(job: ProviderJob) {
+      const response = await fetch(urls.contentUrl(job.id), {
+        method: "GET",
+        headers: authHeaders,
+      })
+
+      if (!response.ok) await throwProviderError(response, "download video content")
+      return toProviderContent(response)
+    },
+
+    async remix({ sourceJobId, prompt }: RemixVideoJobInput) {
+      const response = await fetch(urls.remixUrl(sourceJobId), {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt }),
+      })
+
+      if (!response.ok) await throwProviderError(response, "remix video")
+      return toProviderJob(await response.json())
+    },
+
+    // The Videos API has no cancel endpoint: deleting the video stops the job
+    async cancel(jobId: string) {
+      const response = await fetch(urls.statusUrl(jobId), {
+        method: "DELETE",
+        headers: authHeaders,
+      })
+
+      if (!response.ok) await throwProviderError(response, "cancel video")
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import { ProviderRequestError, type ProviderContent, type ProviderJobStatus } from "./types"
+
+/**
+ * Helpers shared by the provider adapters
+ */
+
+const COMPLETED_STATUSES = ["completed", "succeeded"]
+const FAILED_STATUSES = ["failed", "error", "cancelled", "canceled"]
+const QUEUED_STATUSES = ["queued", "pending", "preprocessing"]
+
+/**
+ * Map a raw provider status onto the normalized job status
+ */
+export const normalizeJobStatus = (status: string | undefined): ProviderJobStatus => {
+  if (!status) return "in_progress"
+  if (COMPLETED_STATUSES.includes(status)) return "completed"
+  if (FAILED_STATUSES.includes(status)) return "failed"
+  if (QUEUED_STATUSES.includes(status)) return "queued"
+  return "in_progress"
+}
+
+/**
+ * Format provider error details (object or string) for storage
+ */
+export const formatJobError = (errorDetails: unknown): string => {
+  if (!errorDetails) return "No error details provided"
+  if (typeof errorDetails === "object") {
+    const details = errorDetails as { code?: string; message?: string }
+    return `${details.code || 'unknown_error'}: ${details.message || 'Unknown error occurred'}`
+  }
+  return String(errorDetails)
+}
+
+/**
+ * Throw a ProviderRequestError with the best message the provider gave us
+ */
+export const throwProviderError = async (response: Response, action: string): Promise<never> => {
+  let message = response.statusText || "Unknown error"
+  try {
+    const error = await response.json()
+    message = error.error?.message || error.message || message
+  } catch {
+    // Response body was not JSON - keep the status text
+  }
+  throw new ProviderRequestError(`Failed to ${action}: ${message}`, response.status)
+}
+
+/**
+ * Hand a successful content response over as a stream
+ */
+export const toProviderContent = (response: Response): ProviderContent => {
+  if (!response.body) {
+    throw new ProviderRequestError("Failed to download video content: Empty response body", response.status)
+  }
+  const contentLength = Number(response.headers.get("content-length"))
+  return {
+    body: response.body,
+    contentLength: Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null,
+  }
+}
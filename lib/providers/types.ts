@@ -0,0 +1,75 @@
+/**
+ * Shared types for video generation providers (OpenAI, Azure, ...)
+ * Every backend is wrapped in a VideoProvider adapter so API routes never
+ * have to know which service they are talking to.
+ */
+
+// Normalized job status shared by all providers
+export type ProviderJobStatus = "queued" | "in_progress" | "completed" | "failed"
+
+export interface CreateVideoJobInput {
+  prompt: string
+  model: string
+  seconds: string
+  size: string
+  inputReference?: File | null
+  variants?: number // Only honored up to capabilities.maxVariants
+}
+
+export interface RemixVideoJobInput {
+  sourceJobId: string
+  prompt: string
+}
+
+// Provider job normalized to a single shape
+export interface ProviderJob {
+  id: string
+  status: ProviderJobStatus
+  providerStatus: string // Raw status string as returned by the provider
+  progress: number | null
+  errorMessage: string | null
+  generationIds: string[] // Azure returns one generation per variant, OpenAI returns none
+  model: string | null
+}
+
+// A generated video as it is being downloaded; the body is streamed, never buffered
+export interface ProviderContent {
+  body: ReadableStream<Uint8Array>
+  contentLength: number | null // From the Content-Length header, when the provider sends one
+}
+
+export interface ProviderCapabilities {
+  remix: boolean
+  inputReference: boolean
+  cancel: boolean
+  maxVariants: number
+}
+
+export interface VideoProvider {
+  name: string
+  capabilities: ProviderCapabilities
+  createJob: (input: CreateVideoJobInput) => Promise<ProviderJob>
+  getStatus: (jobId: string) => Promise<ProviderJob>
+  downloadContent: (job: ProviderJob, variantIndex?: number) => Promise<ProviderContent>
+  remix: (input: RemixVideoJobInput) => Promise<ProviderJob>
+  cancel: (jobId: string) => Promise<void>
+}
+
+export type VideoProviderFactory = () => VideoProvider
+
+export class ProviderRequestError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ProviderRequestError'
+    this.status = status
+  }
+}
+
+export class UnsupportedProviderOperationError extends Error {
+  constructor(provider: string, operation: string) {
+    super(`${operation} is not supported with ${provider} provider`)
+    this.name = 'UnsupportedProviderOperationError'
+  }
+}
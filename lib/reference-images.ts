@@ -0,0 +1,150 @@
+/**
+ * Input reference images must have exactly the size of the generated video.
+ * These helpers compute how an image is scaled into that size and read the
+ * dimensions of an uploaded image without decoding it.
+ */
+
+export const REFERENCE_FIT_MODES = ["crop", "fit", "fill"] as const
+
+// crop: cover the frame and cut the overflow, fit: letterbox the whole image,
+// fill: stretch the image to the frame
+export type ReferenceFitMode = (typeof REFERENCE_FIT_MODES)[number]
+
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+export interface ReferenceDrawRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Where to draw the source image in the target frame
+ * @param position - For crop, which part of the overflow stays visible (0-1 per axis, 0.5 centers)
+ */
+export const getReferenceDrawRect = (
+  source: ImageDimensions,
+  target: ImageDimensions,
+  mode: ReferenceFitMode,
+  position: { x: number; y: number } = { x: 0.5, y: 0.5 },
+): ReferenceDrawRect => {
+  if (mode === "fill") {
+    return { x: 0, y: 0, width: target.width, height: target.height }
+  }
+
+  const scaleX = target.width / source.width
+  const scaleY = target.height / source.height
+  const scale = mode === "crop" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY)
+  const width = source.width * scale
+  const height = source.height * scale
+
+  // Both modes center by default; crop slides the overflow by position
+  const offsetX = mode === "crop" ? position.x : 0.5
+  const offsetY = mode === "crop" ? position.y : 0.5
+  return {
+    x: (target.width - width) * offsetX,
+    y: (target.height - height) * offsetY,
+    width,
+    height,
+  }
+}
+
+/**
+ * Whether a crop of the source to the target cuts anything horizontally/vertically
+ */
+export const getCropOverflow = (source: ImageDimensions, target: ImageDimensions) => {
+  const rect = getReferenceDrawRect(source, target, "crop")
+  return { x: rect.width - target.width > 0.5, y: rect.height - target.height > 0.5 }
+}
+
+/**
+ * Read the orientation tag from the first IFD of an EXIF block
+ * @param tiffStart - Offset of the TIFF header that follows "Exif\0\0"
+ * @returns null when the block has no orientation
+ */
+const readExifOrientation = (view: DataView, tiffStart: number): number | null => {
+  try {
+    const byteOrder = view.getUint16(tiffStart)
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null
+    const littleEndian = byteOrder === 0x4949
+
+    const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian)
+    const entryCount = view.getUint16(ifdStart, littleEndian)
+    for (let index = 0; index < entryCount; index++) {
+      const entry = ifdStart + 2 + index * 12
+      if (view.getUint16(entry, littleEndian) === 0x0112) {
+        return view.getUint16(entry + 8, littleEndian)
+      }
+    }
+  } catch {
+    // Offsets past the end: a broken EXIF block does not hide the image size
+  }
+  return null
+}
+
+/**
+ * Read the dimensions from the header of a PNG, JPEG, GIF or WebP image,
+ * as displayed (JPEG EXIF orientation applied)
+ * @returns null for other formats or truncated files
+ */
+export const readImageDimensions = (bytes: Uint8Array): ImageDimensions | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+  try {
+    // PNG: IHDR is always the first chunk
+    if (bytes[0] === 0x89 && ascii(1, 3) === "PNG") {
+      return { width: view.getUint32(16), height: view.getUint32(20) }
+    }
+
+    if (ascii(0, 4) === "GIF8") {
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+    }
+
+    if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+      const chunk = ascii(12, 4)
+      if (chunk === "VP8 ") {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true)
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+      }
+      if (chunk === "VP8X") {
+        const readUint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+        return { width: readUint24(24) + 1, height: readUint24(27) + 1 }
+      }
+      return null
+    }
+
+    // JPEG: the frame header (SOFn) holds the dimensions. Browsers display
+    // the image rotated by its EXIF orientation, which comes before it.
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      let offset = 2
+      let orientation = 1
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null
+        const marker = bytes[offset + 1]
+        if (marker === 0xe1 && ascii(offset + 4, 6) === "Exif\0\0") {
+          orientation = readExifOrientation(view, offset + 10) ?? orientation
+        }
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          const width = view.getUint16(offset + 7)
+          const height = view.getUint16(offset + 5)
+          // Orientations 5-8 turn the image by 90 degrees
+          return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height }
+        }
+        offset += 2 + view.getUint16(offset + 2)
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null
+}
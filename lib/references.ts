@@ -0,0 +1,105 @@
+import { createHash } from "crypto"
+import { deleteReferenceIfUnused, fetchReference, insertReference } from "@/lib/database-utils"
+import { parseVideoSize } from "@/lib/generation-options"
+import {
+  deleteStorageObjects,
+  downloadFromStorage,
+  downloadStorageObjectToTempFile,
+  getVideoStoragePath,
+  removeDownloadedFile,
+  uploadReferenceToStorage,
+} from "@/lib/storage-utils"
+import { extractLastFrame } from "@/lib/video-thumbnails"
+import type { Video } from "@/types/video"
+
+/**
+ * Input references: files that guide a generation are kept in storage
+ * (references/ prefix) and recorded in video_references, so every video
+ * links to its reference and references can be used again.
+ */
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/mov": "mov",
+  "video/quicktime": "mov",
+  "video/avi": "avi",
+  "video/webm": "webm",
+}
+
+const getExtension = (file: File) =>
+  EXTENSIONS[file.type] ?? file.name.split(".").pop()?.toLowerCase() ?? "bin"
+
+/**
+ * Store an uploaded reference for the signed-in user. Uploading the same file
+ * again returns the existing reference.
+ */
+export async function storeInputReference(file: File) {
+  const contentHash = createHash("sha256").update(Buffer.from(await file.arrayBuffer())).digest("hex")
+
+  const existing = await fetchReference({ contentHash })
+  if (existing) {
+    console.log("[REFERENCES] ♻️ Reusing stored input reference:", existing.id)
+    return existing
+  }
+
+  const { path, url } = await uploadReferenceToStorage(file, contentHash, getExtension(file))
+  return insertReference({
+    storage_path: path,
+    url,
+    file_name: file.name || `reference.${getExtension(file)}`,
+    content_type: file.type || "application/octet-stream",
+    size_bytes: file.size,
+    content_hash: contentHash,
+  })
+}
+
+/**
+ * Store the last frame of a video as an input reference, at the size the video
+ * was requested in, so a new clip can continue from it. Extending the same
+ * video again returns the existing reference.
+ * @returns null when the video has no stored file
+ */
+export async function storeLastFrameReference(video: Pick<Video, "id" | "storage_path" | "video_url" | "size">) {
+  const storagePath = getVideoStoragePath(video)
+  if (!storagePath) return null
+
+  const videoFile = await downloadStorageObjectToTempFile(storagePath)
+  try {
+    const frame = await extractLastFrame(videoFile.filePath, parseVideoSize(video.size))
+    console.log("[REFERENCES] 🎞️ Extracted last frame of video:", video.id)
+    return await storeInputReference(new File([frame], `${video.id}-last-frame.png`, { type: "image/png" }))
+  } finally {
+    await removeDownloadedFile(videoFile)
+  }
+}
+
+/**
+ * Load one of the signed-in user's stored references as a file for the provider
+ * @returns null when the reference does not exist
+ */
+export async function loadInputReference(referenceId: string) {
+  const reference = await fetchReference({ id: referenceId })
+  if (!reference) return null
+
+  const blob = await downloadFromStorage(reference.storage_path)
+  const file = new File([blob], reference.file_name, { type: reference.content_type })
+  return { reference, file }
+}
+
+/**
+ * Delete a reference and its file once its last video is gone
+ * @returns whether the reference was deleted
+ */
+export async function removeUnusedReference(referenceId: string) {
+  const deleted = await deleteReferenceIfUnused(referenceId)
+  if (!deleted) return false
+
+  console.log("[REFERENCES] 🗑️ Deleting unused input reference:", deleted.id)
+  await deleteStorageObjects([deleted.storage_path])
+  return true
+}
@@ -0,0 +1,47 @@
+import { z } from "zod"
+
+/**
+ * Share links for single videos.
+ * Shared by the share dialog and /api/videos/{id}/shares.
+ */
+
+// Expiry choices offered when creating a link, in hours (null = never)
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+  { label: "Never", hours: null },
+] as const
+
+// A share as shown to its owner; the password hash never leaves the server
+export interface VideoShare {
+  id: string
+  video_id: string
+  token: string
+  has_password: boolean
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_at: string
+}
+
+export type VideoShareStatus = "active" | "expired" | "revoked"
+
+export const createShareSchema = z.object({
+  expiresInHours: z.number().int().positive().max(24 * 365).nullable().default(null),
+  password: z
+    .string()
+    .max(100, "Password must be at most 100 characters")
+    .optional()
+    .transform((password) => password || undefined)
+    .refine((password) => !password || password.length >= 4, "Password must be at least 4 characters"),
+})
+
+export const getShareStatus = (share: Pick<VideoShare, "expires_at" | "revoked_at">, now: Date = new Date()): VideoShareStatus => {
+  if (share.revoked_at) return "revoked"
+  if (share.expires_at && new Date(share.expires_at) <= now) return "expired"
+  return "active"
+}
+
+export const getSharePath = (token: string) => `/share/${token}`
@@ -0,0 +1,164 @@
+import { withDatabaseRetry } from "@/lib/database-utils"
+import {
+  deleteStorageObjects,
+  getVideoFilePaths,
+  getVideoStoragePath,
+  listStorageObjects,
+  type StorageObjectInfo,
+} from "@/lib/storage-utils"
+
+/**
+ * Reconciliation of the storage bucket with the database, across all users.
+ * Every file in the bucket should belong to a video (the video file or its
+ * thumbnails) or an input reference, and every completed video and every
+ * reference should still have its file.
+ */
+
+// Newer files and rows may belong to an upload that is still being recorded
+export const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000
+
+export const MISSING_FILE_ERROR = "The video file is missing from storage"
+
+const SERVICE = { useServiceRole: true }
+const PAGE_SIZE = 1000
+
+export interface StoredRow {
+  id: string
+  path: string
+}
+
+export interface StorageOrphanReport {
+  scannedAt: string
+  // Files no video or reference points to
+  orphanedFiles: StorageObjectInfo[]
+  // Completed videos whose file is gone
+  videosWithoutFile: StoredRow[]
+  // Input references whose file is gone
+  referencesWithoutFile: StoredRow[]
+}
+
+export interface StorageReconcileResult {
+  deletedFiles: number
+  failedVideos: number
+  deletedReferences: number
+}
+
+type VideoFileRow = {
+  id: string
+  status: string | null
+  video_url: string | null
+  storage_path: string | null
+  thumbnail_path: string | null
+  preview_path: string | null
+  updated_at: string
+}
+
+type ReferenceFileRow = { id: string; storage_path: string; created_at: string }
+
+const fetchVideoFiles = async () => {
+  const rows: VideoFileRow[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await withDatabaseRetry(async (supabase) => {
+      const { data, error } = await supabase
+        .from("videos")
+        .select("id, status, video_url, storage_path, thumbnail_path, preview_path, updated_at")
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) throw error
+      return (data ?? []) as VideoFileRow[]
+    }, SERVICE)
+
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+const fetchReferenceFiles = async () => {
+  const rows: ReferenceFileRow[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await withDatabaseRetry(async (supabase) => {
+      const { data, error } = await supabase
+        .from("video_references")
+        .select("id, storage_path, created_at")
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) throw error
+      return (data ?? []) as ReferenceFileRow[]
+    }, SERVICE)
+
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Compare the files in the bucket with the videos and references pointing to them
+ */
+export async function scanStorageOrphans(): Promise<StorageOrphanReport> {
+  const scannedAt = new Date()
+  const [objects, videos, references] = await Promise.all([listStorageObjects(), fetchVideoFiles(), fetchReferenceFiles()])
+
+  const videoFiles = videos.flatMap((video) => {
+    const path = getVideoStoragePath(video)
+    return path ? [{ ...video, path }] : []
+  })
+  const knownPaths = new Set([...videos.flatMap(getVideoFilePaths), ...references.map((reference) => reference.storage_path)])
+  const storedPaths = new Set(objects.map((object) => object.path))
+
+  const isOldEnough = (timestamp: string | null) =>
+    !!timestamp && scannedAt.getTime() - Date.parse(timestamp) >= ORPHAN_MIN_AGE_MS
+
+  return {
+    scannedAt: scannedAt.toISOString(),
+    orphanedFiles: objects.filter((object) => !knownPaths.has(object.path) && isOldEnough(object.created_at)),
+    videosWithoutFile: videoFiles
+      .filter((video) => video.status === "completed" && !storedPaths.has(video.path) && isOldEnough(video.updated_at))
+      .map(({ id, path }) => ({ id, path })),
+    referencesWithoutFile: references
+      .filter((reference) => !storedPaths.has(reference.storage_path) && isOldEnough(reference.created_at))
+      .map(({ id, storage_path }) => ({ id, path: storage_path })),
+  }
+}
+
+/**
+ * Clean up what a fresh scan finds: orphaned files are deleted, videos
+ * without a file are marked failed and references without a file are deleted
+ * (their videos keep no link to them)
+ */
+export async function reconcileStorageOrphans(): Promise<StorageReconcileResult & { report: StorageOrphanReport }> {
+  const report = await scanStorageOrphans()
+
+  await deleteStorageObjects(report.orphanedFiles.map((object) => object.path))
+
+  const videoIds = report.videosWithoutFile.map((video) => video.id)
+  const referenceIds = report.referencesWithoutFile.map((reference) => reference.id)
+
+  await withDatabaseRetry(async (supabase) => {
+    if (videoIds.length > 0) {
+      const { error } = await supabase
+        .from("videos")
+        .update({ status: "failed", error_message: MISSING_FILE_ERROR, video_url: "", storage_path: null })
+        .in("id", videoIds)
+
+      if (error) throw error
+    }
+
+    if (referenceIds.length > 0) {
+      const { error } = await supabase
+        .from("video_references")
+        .delete()
+        .in("id", referenceIds)
+
+      if (error) throw error
+    }
+  }, SERVICE)
+
+  return {
+    report,
+    deletedFiles: report.orphanedFiles.length,
+    failedVideos: videoIds.length,
+    deletedReferences: referenceIds.length,
+  }
+}
@@ -1,89 +1,368 @@
-import { createClient } from "@/lib/supabase/server"
+import { createHash } from "crypto"
+import { createWriteStream } from "fs"
+import { mkdtemp, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { dirname, join } from "path"
+import { Readable, Transform } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import {
+  TRANSFER_CONFIG,
+  formatMegabytes,
+  getStorageDriver,
+  isPrivateStorage,
+  type StorageFile,
+  type StorageObjectInfo,
+} from "@/lib/storage"
 import { createClient as createBrowserClient } from "@/lib/supabase/client"
 
 /**
- * Supabase Storage utility functions for managing video files
+ * Storage utility functions for managing video files, on top of the configured
+ * storage driver (lib/storage)
  * This replaces the base64 string storage approach with proper file storage
  */
 
+export { isPrivateStorage, type StorageFile, type StorageObjectInfo }
+
+// Bucket of the browser upload helper and of public URLs stored before 013_video_storage_paths.sql
 const STORAGE_BUCKET = "videos"
 
+// Playback URLs minted for a private bucket stay valid this long
+export const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// A file in the bucket; url is its public URL, empty for a private bucket
+export interface StoredObject {
+  path: string
+  url: string
+}
+
+const getStoredObjectUrl = (path: string) => (isPrivateStorage() ? "" : getStorageDriver().getPublicUrl(path))
+
 /**
- * Upload a video blob to Supabase Storage
- * @param videoBlob - The video blob to upload
- * @param videoId - Unique identifier for the video (OpenAI job ID)
- * @returns The public URL of the uploaded video
+ * Stream a download to a temporary file, hashing and counting its bytes on the way
+ * @param body - Body of the download response
+ * @param expectedSize - Content-Length of the download, when known
+ * @returns The file, to be removed with removeDownloadedFile once stored
+ */
+export const downloadToTempFile = async (
+  body: ReadableStream<Uint8Array>,
+  expectedSize: number | null
+): Promise<StorageFile> => {
+  const { maxBytes } = TRANSFER_CONFIG
+  if (expectedSize !== null && expectedSize > maxBytes) {
+    await body.cancel().catch(() => undefined)
+    throw new Error(`Video is ${formatMegabytes(expectedSize)}, over the ${formatMegabytes(maxBytes)} limit`)
+  }
+
+  const filePath = join(await mkdtemp(join(tmpdir(), "video-download-")), "video.mp4")
+  const hash = createHash("sha256")
+  let size = 0
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length
+      if (size > maxBytes) {
+        callback(new Error(`Video is over the ${formatMegabytes(maxBytes)} limit`))
+        return
+      }
+      hash.update(chunk)
+      callback(null, chunk)
+    },
+  })
+
+  try {
+    await pipeline(Readable.fromWeb(body as WebReadableStream<Uint8Array>), meter, createWriteStream(filePath))
+    if (size === 0) throw new Error("Video download is empty")
+    if (expectedSize !== null && size !== expectedSize) {
+      throw new Error(`Video download was cut short: received ${size} of ${expectedSize} bytes`)
+    }
+  } catch (error) {
+    await removeDownloadedFile({ filePath })
+    throw error
+  }
+
+  return { filePath, size, sha256: hash.digest("hex") }
+}
+
+/**
+ * Download a stored file to a temporary file (e.g. a video to extract frames from)
+ * @returns The file, to be removed with removeDownloadedFile
+ */
+export const downloadStorageObjectToTempFile = async (filePath: string): Promise<StorageFile> => {
+  console.log(`[STORAGE] 📥 Downloading file from storage to disk:`, filePath)
+
+  const { body, size } = await getStorageDriver().getStream(filePath)
+  return downloadToTempFile(body, size)
+}
+
+/**
+ * Remove a downloaded file and its temporary folder
+ */
+export const removeDownloadedFile = async (file: Pick<StorageFile, "filePath">) => {
+  await rm(dirname(file.filePath), { recursive: true, force: true })
+}
+
+/**
+ * Upload a downloaded video to storage. Large files are uploaded in chunks
+ * (resumable or multipart, depending on the driver); either way the bytes sent
+ * are checked against the download checksum.
+ * @param file - The video, as downloaded by downloadToTempFile
+ * @param videoId - Unique identifier for the video (provider job ID)
+ * @returns The storage path and (public bucket) URL of the uploaded video
  */
 export const uploadVideoToStorage = async (
-  videoBlob: Blob,
+  file: StorageFile,
   videoId: string
-): Promise<string> => {
-  const supabase = await createClient()
+): Promise<StoredObject> => {
+  const driver = getStorageDriver()
   
   // Generate a unique filename
   const timestamp = Date.now()
   const filename = `${videoId}-${timestamp}.mp4`
   const filePath = `videos/${filename}`
 
-  console.log(`[STORAGE] 📤 Uploading video to storage:`, {
+  console.log(`[STORAGE] 📤 Uploading video to ${driver.name} storage:`, {
     filename,
-    size: `${(videoBlob.size / 1024 / 1024).toFixed(2)} MB`,
+    size: formatMegabytes(file.size),
+    path: filePath,
+  })
+
+  try {
+    await driver.put(filePath, file, { contentType: 'video/mp4', upsert: false })
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to upload video:`, error)
+    throw new Error(`Failed to upload video: ${error instanceof Error ? error.message : error}`)
+  }
+
+  console.log(`[STORAGE] ✅ Video uploaded successfully:`, filePath)
+
+  return { path: filePath, url: getStoredObjectUrl(filePath) }
+}
+
+/**
+ * Upload an input reference (image or video) to the references/ prefix
+ * @param file - The reference file as uploaded by the user
+ * @param contentHash - SHA-256 of the file, makes the path unique per content
+ * @returns The storage path and (public bucket) URL of the uploaded file
+ */
+export const uploadReferenceToStorage = async (
+  file: Blob,
+  contentHash: string,
+  extension: string
+): Promise<StoredObject> => {
+  const filePath = `references/${contentHash}-${Date.now()}.${extension}`
+
+  console.log(`[STORAGE] 📤 Uploading input reference to storage:`, {
+    size: formatMegabytes(file.size),
+    type: file.type,
     path: filePath
   })
 
-  // Upload the file to Supabase Storage
-  const { data, error } = await supabase.storage
-    .from(STORAGE_BUCKET)
-    .upload(filePath, videoBlob, {
-      contentType: 'video/mp4',
-      cacheControl: '3600',
-      upsert: false
-    })
+  try {
+    await getStorageDriver().put(filePath, file, { contentType: file.type || 'application/octet-stream', upsert: false })
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to upload input reference:`, error)
+    throw new Error(`Failed to upload input reference: ${error instanceof Error ? error.message : error}`)
+  }
 
-  if (error) {
-    console.error(`[STORAGE] ❌ Failed to upload video:`, error)
-    throw new Error(`Failed to upload video: ${error.message}`)
+  console.log(`[STORAGE] ✅ Input reference uploaded successfully:`, filePath)
+
+  return { path: filePath, url: getStoredObjectUrl(filePath) }
+}
+
+const THUMBNAIL_FILES = {
+  poster: { suffix: "-poster.jpg", contentType: "image/jpeg" },
+  preview: { suffix: "-preview.webp", contentType: "image/webp" },
+}
+
+/**
+ * Upload a thumbnail next to its video
+ * @param image - Poster frame (JPEG) or animated preview (WebP)
+ * @param videoPath - Storage path of the video
+ * @returns The storage path and (public bucket) URL of the uploaded image
+ */
+export const uploadThumbnailToStorage = async (
+  image: Blob,
+  videoPath: string,
+  kind: keyof typeof THUMBNAIL_FILES
+): Promise<StoredObject> => {
+  const { suffix, contentType } = THUMBNAIL_FILES[kind]
+  const filePath = `${videoPath.replace(/\.mp4$/, "")}${suffix}`
+
+  console.log(`[STORAGE] 📤 Uploading ${kind} to storage:`, {
+    size: `${(image.size / 1024).toFixed(1)} KB`,
+    path: filePath
+  })
+
+  try {
+    await getStorageDriver().put(filePath, image, { contentType, upsert: true })
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to upload ${kind}:`, error)
+    throw new Error(`Failed to upload ${kind}: ${error instanceof Error ? error.message : error}`)
   }
 
-  console.log(`[STORAGE] ✅ Video uploaded successfully:`, data.path)
+  return { path: filePath, url: getStoredObjectUrl(filePath) }
+}
 
-  // Get the public URL
-  const { data: urlData } = supabase.storage
-    .from(STORAGE_BUCKET)
-    .getPublicUrl(data.path)
+/**
+ * Mint signed URLs for files in the bucket
+ * @returns Signed URL by path; paths that could not be signed are left out
+ */
+export const createSignedStorageUrls = async (paths: string[]): Promise<Map<string, string>> => {
+  const uniquePaths = [...new Set(paths)]
+  if (uniquePaths.length === 0) return new Map()
 
-  console.log(`[STORAGE] 🔗 Public URL generated:`, urlData.publicUrl)
+  try {
+    return await getStorageDriver().createSignedUrls(uniquePaths, SIGNED_URL_TTL_SECONDS)
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to sign URLs:`, error)
+    throw error
+  }
+}
 
-  return urlData.publicUrl
+type StoredReference = { url: string; storage_path?: string | null }
+
+type StoredVideo = {
+  video_url?: string | null
+  storage_path?: string | null
+  thumbnail_url?: string | null
+  thumbnail_path?: string | null
+  preview_url?: string | null
+  preview_path?: string | null
+  input_reference?: StoredReference | null
 }
 
+const collectPaths = (paths: (string | null | undefined)[]) => paths.filter((path): path is string => !!path)
+
 /**
- * Delete a video from Supabase Storage
- * @param videoUrl - The public URL of the video to delete
+ * Give videos a playable video_url (and thumbnail and input reference URLs).
+ * With a private bucket, files stored at a path get signed URLs and
+ * video_url_expires_at tells clients when to fetch new ones; with a public
+ * bucket the stored URLs are used as they are.
  */
-export const deleteVideoFromStorage = async (videoUrl: string): Promise<void> => {
-  const supabase = await createClient()
-  
-  // Extract the file path from the public URL
-  const filePath = extractFilePathFromUrl(videoUrl)
-  
-  if (!filePath) {
-    console.warn(`[STORAGE] ⚠️ Could not extract file path from URL:`, videoUrl)
-    return
+export const withPlaybackUrls = async <T extends StoredVideo>(
+  videos: T[]
+): Promise<(T & { video_url_expires_at?: string })[]> => {
+  if (!isPrivateStorage()) return videos
+
+  const signedUrls = await createSignedStorageUrls(
+    collectPaths(videos.flatMap((video) => [
+      video.storage_path,
+      video.thumbnail_path,
+      video.preview_path,
+      video.input_reference?.storage_path,
+    ]))
+  )
+  const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString()
+  const signed = (path?: string | null) => (path ? signedUrls.get(path) : undefined)
+
+  return videos.map((video) => {
+    const signedUrl = signed(video.storage_path)
+    const thumbnailUrl = signed(video.thumbnail_path)
+    const previewUrl = signed(video.preview_path)
+    const referenceUrl = signed(video.input_reference?.storage_path)
+    return {
+      ...video,
+      ...(signedUrl ? { video_url: signedUrl, video_url_expires_at: expiresAt } : {}),
+      ...(thumbnailUrl ? { thumbnail_url: thumbnailUrl } : {}),
+      ...(previewUrl ? { preview_url: previewUrl } : {}),
+      ...(video.input_reference && referenceUrl ? { input_reference: { ...video.input_reference, url: referenceUrl } } : {}),
+    }
+  })
+}
+
+export const withPlaybackUrl = async <T extends StoredVideo>(video: T) => (await withPlaybackUrls([video]))[0]
+
+/**
+ * Give input references a viewable url (signed for a private bucket)
+ */
+export const withReferenceUrls = async <T extends StoredReference>(references: T[]): Promise<T[]> => {
+  if (!isPrivateStorage()) return references
+
+  const signedUrls = await createSignedStorageUrls(collectPaths(references.map((reference) => reference.storage_path)))
+  return references.map((reference) => {
+    const signedUrl = reference.storage_path ? signedUrls.get(reference.storage_path) : undefined
+    return signedUrl ? { ...reference, url: signedUrl } : reference
+  })
+}
+/**
+ * Download a stored file (e.g. an input reference to send it again)
+ * @param filePath - Path of the file in the bucket
+ */
+export const downloadFromStorage = async (filePath: string): Promise<Blob> => {
+  console.log(`[STORAGE] 📥 Downloading file from storage:`, filePath)
+
+  try {
+    const { body } = await getStorageDriver().getStream(filePath)
+    return await new Response(body).blob()
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to download file:`, error)
+    throw new Error(`Failed to download file: ${error instanceof Error ? error.message : error}`)
   }
+}
 
-  console.log(`[STORAGE] 🗑️ Deleting video from storage:`, filePath)
+/**
+ * Path of a video's file in the bucket. Videos stored before
+ * 013_video_storage_paths.sql only have their public URL.
+ */
+export const getVideoStoragePath = (video: { storage_path?: string | null; video_url?: string | null }) =>
+  video.storage_path || (video.video_url ? extractFilePathFromUrl(video.video_url) : null)
 
-  const { error } = await supabase.storage
-    .from(STORAGE_BUCKET)
-    .remove([filePath])
+/**
+ * Delete files from storage; paths that do not exist are ignored
+ */
+export const deleteStorageObjects = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return
 
-  if (error) {
-    console.error(`[STORAGE] ❌ Failed to delete video:`, error)
-    throw new Error(`Failed to delete video: ${error.message}`)
+  console.log(`[STORAGE] 🗑️ Deleting ${paths.length} files from storage`)
+
+  try {
+    await getStorageDriver().delete(paths)
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to delete files:`, error)
+    throw error
+  }
+
+  console.log(`[STORAGE] ✅ Files deleted successfully`)
+}
+
+type VideoFiles = {
+  storage_path?: string | null
+  video_url?: string | null
+  thumbnail_path?: string | null
+  preview_path?: string | null
+}
+
+/**
+ * Paths of every file stored for a video: the video and its thumbnails
+ */
+export const getVideoFilePaths = (video: VideoFiles) =>
+  collectPaths([getVideoStoragePath(video), video.thumbnail_path, video.preview_path])
+
+/**
+ * Delete the files of a video (the video and its thumbnails) from storage
+ */
+export const deleteVideoFromStorage = async (video: VideoFiles): Promise<void> => {
+  const filePaths = getVideoFilePaths(video)
+
+  if (filePaths.length === 0) {
+    console.warn(`[STORAGE] ⚠️ Video has no file in storage:`, video.video_url)
+    return
   }
 
-  console.log(`[STORAGE] ✅ Video deleted successfully`)
+  await deleteStorageObjects(filePaths)
+}
+
+/**
+ * List every file in storage
+ */
+export const listStorageObjects = async (): Promise<StorageObjectInfo[]> => {
+  try {
+    return await getStorageDriver().list()
+  } catch (error) {
+    console.error(`[STORAGE] ❌ Failed to list files:`, error)
+    throw error
+  }
 }
 
 /**
@@ -0,0 +1,95 @@
+import { z } from "zod"
+import { parseEnvConfig } from "@/lib/env-config"
+
+/**
+ * Validated environment configuration for the storage drivers.
+ * Missing or malformed values raise a StorageConfigError naming the variables,
+ * which surfaces at server startup (see instrumentation.ts).
+ */
+
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageConfigError'
+  }
+}
+
+/**
+ * Whether the bucket is private. Records then only keep the storage path and
+ * every API response mints short-lived signed URLs instead.
+ */
+export const isPrivateStorage = () => process.env.STORAGE_PRIVATE_BUCKET === "true"
+
+export const getStorageDriverName = () => process.env.STORAGE_DRIVER || "supabase"
+
+const bucketSchema = z.string().min(1).default("videos")
+
+const supabaseEnvSchema = z.object({
+  NEXT_PUBLIC_SUPABASE_URL: z.string({ required_error: "is required" }).url("must be a valid URL"),
+  STORAGE_BUCKET: bucketSchema,
+})
+
+const s3EnvSchema = z.object({
+  S3_ENDPOINT: z.string().url("must be a valid URL").optional(),
+  S3_REGION: z.string().min(1).default("us-east-1"),
+  S3_ACCESS_KEY_ID: z.string({ required_error: "is required" }).min(1, "is required"),
+  S3_SECRET_ACCESS_KEY: z.string({ required_error: "is required" }).min(1, "is required"),
+  S3_PUBLIC_URL: z.string().url("must be a valid URL").optional(),
+  STORAGE_BUCKET: bucketSchema,
+})
+
+const localEnvSchema = z.object({
+  STORAGE_LOCAL_DIR: z.string().min(1).default("storage"),
+  STORAGE_SIGNING_SECRET: z.string().min(16, "must be at least 16 characters").optional(),
+})
+
+export interface SupabaseStorageConfig {
+  url: string
+  bucket: string
+}
+
+export interface S3StorageConfig {
+  endpoint: string // Without trailing slash; objects are addressed path-style
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  bucket: string
+  publicUrl: string // Base URL of the bucket for public file URLs
+}
+
+export interface LocalStorageConfig {
+  directory: string
+  signingSecret: string | null
+}
+
+export const getSupabaseStorageConfig = (): SupabaseStorageConfig => {
+  const env = parseEnvConfig(supabaseEnvSchema, "supabase storage", StorageConfigError)
+  return { url: env.NEXT_PUBLIC_SUPABASE_URL.replace(/\/+$/, ""), bucket: env.STORAGE_BUCKET }
+}
+
+export const getS3StorageConfig = (): S3StorageConfig => {
+  const env = parseEnvConfig(s3EnvSchema, "s3 storage", StorageConfigError)
+
+  // Without an endpoint, use AWS S3 itself
+  const endpoint = (env.S3_ENDPOINT ?? `https://s3.${env.S3_REGION}.amazonaws.com`).replace(/\/+$/, "")
+
+  return {
+    endpoint,
+    region: env.S3_REGION,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    bucket: env.STORAGE_BUCKET,
+    publicUrl: (env.S3_PUBLIC_URL ?? `${endpoint}/${env.STORAGE_BUCKET}`).replace(/\/+$/, ""),
+  }
+}
+
+export const getLocalStorageConfig = (): LocalStorageConfig => {
+  const env = parseEnvConfig(localEnvSchema, "local storage", StorageConfigError)
+
+  // Signed URLs of a private directory are checked by the server, not by a storage service
+  if (isPrivateStorage() && !env.STORAGE_SIGNING_SECRET) {
+    throw new StorageConfigError("Invalid local storage configuration: STORAGE_SIGNING_SECRET is required when STORAGE_PRIVATE_BUCKET=true")
+  }
+
+  return { directory: env.STORAGE_LOCAL_DIR, signingSecret: env.STORAGE_SIGNING_SECRET ?? null }
+}
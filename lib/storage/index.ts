@@ -0,0 +1,45 @@
+import { getStorageDriverName } from "./config"
+import { createLocalStorageDriver } from "./local"
+import { createS3StorageDriver } from "./s3"
+import { createSupabaseStorageDriver } from "./supabase"
+import type { StorageDriver, StorageDriverFactory } from "./types"
+
+export * from "./types"
+export { StorageConfigError, getStorageDriverName, isPrivateStorage } from "./config"
+export { TRANSFER_CONFIG, formatMegabytes } from "./shared"
+
+/**
+ * Registry of available storage drivers keyed by STORAGE_DRIVER value.
+ * Adding a backend means writing a driver and registering it here.
+ */
+const driverRegistry = new Map<string, StorageDriverFactory>()
+
+export const registerStorageDriver = (name: string, factory: StorageDriverFactory) => {
+  driverRegistry.set(name, factory)
+}
+
+registerStorageDriver("supabase", createSupabaseStorageDriver)
+registerStorageDriver("s3", createS3StorageDriver)
+registerStorageDriver("local", createLocalStorageDriver)
+
+/**
+ * Get the configured (or explicitly named) storage driver
+ */
+export const getStorageDriver = (name: string = getStorageDriverName()): StorageDriver => {
+  const factory = driverRegistry.get(name)
+  if (!factory) {
+    throw new Error(`Unknown STORAGE_DRIVER "${name}". Available drivers: ${getRegisteredStorageDrivers().join(", ")}`)
+  }
+  return factory()
+}
+
+export const getRegisteredStorageDrivers = () => Array.from(driverRegistry.keys())
+
+/**
+ * Fail fast on a missing or invalid storage configuration.
+ * Called once at server startup from instrumentation.ts.
+ */
+export const validateStorageConfiguration = (name: string = getStorageDriverName()) => {
+  const driver = getStorageDriver(name)
+  console.log(`[STORAGE] ✅ Using ${driver.name.toUpperCase()} storage`)
+}
@@ -0,0 +1,171 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto"
+import { createReadStream, createWriteStream } from "fs"
+import { link, mkdir, readdir, rename, rm, stat, writeFile } from "fs/promises"
+import { dirname, extname, join, relative, resolve, sep } from "path"
+import { Readable, Transform } from "stream"
+import { pipeline } from "stream/promises"
+import { getLocalStorageConfig } from "./config"
+import { encodeStoragePath, isStorageFile } from "./shared"
+import type { StorageDriver, StorageFile, StorageObjectInfo } from "./types"
+
+// Files are served by app/api/storage/files/[...path]/route.ts
+export const LOCAL_FILES_ROUTE = "/api/storage/files"
+
+// Uploads are written next to their destination under this prefix, then moved into place
+const UPLOAD_PREFIX = ".upload-"
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+}
+
+export const getLocalContentType = (path: string) => CONTENT_TYPES[extname(path).toLowerCase()] ?? "application/octet-stream"
+
+/**
+ * Absolute location of a stored file
+ * @returns null for paths that would leave the storage directory
+ */
+export const resolveLocalPath = (path: string): string | null => {
+  const root = resolve(getLocalStorageConfig().directory)
+  const location = resolve(root, path)
+  if (!path || path.split("/").some((segment) => segment === ".." || segment.startsWith(UPLOAD_PREFIX))) return null
+  return location.startsWith(`${root}${sep}`) ? location : null
+}
+
+const requireLocalPath = (path: string) => {
+  const location = resolveLocalPath(path)
+  if (!location) throw new Error(`Invalid storage path: ${path}`)
+  return location
+}
+
+const signPath = (secret: string, path: string, expires: number) =>
+  createHmac("sha256", secret).update(`${path}:${expires}`).digest("hex")
+
+/**
+ * Check the signature of a signed file URL
+ */
+export const verifyLocalSignature = (path: string, expires: string | null, signature: string | null) => {
+  const { signingSecret } = getLocalStorageConfig()
+  const expiresAt = Number(expires)
+  if (!signingSecret || !signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false
+
+  const expected = Buffer.from(signPath(signingSecret, path, expiresAt))
+  const given = Buffer.from(signature)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+/**
+ * Copy a downloaded file, checking that the copy hashes to the download checksum
+ */
+const copyVerified = async (file: StorageFile, destination: string) => {
+  const hash = createHash("sha256")
+  let size = 0
+  await pipeline(
+    createReadStream(file.filePath),
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length
+        hash.update(chunk)
+        callback(null, chunk)
+      },
+    }),
+    createWriteStream(destination)
+  )
+  if (size !== file.size || hash.digest("hex") !== file.sha256) {
+    throw new Error("Checksum mismatch: the video file changed after it was downloaded")
+  }
+}
+
+/**
+ * Local filesystem driver for development: files live under STORAGE_LOCAL_DIR
+ * and are served by the app itself
+ */
+export const createLocalStorageDriver = (): StorageDriver => {
+  const config = getLocalStorageConfig()
+  const root = resolve(config.directory)
+
+  return {
+    name: "local",
+
+    async put(path, body, { upsert = false }) {
+      const destination = requireLocalPath(path)
+      await mkdir(dirname(destination), { recursive: true })
+
+      const upload = join(dirname(destination), `${UPLOAD_PREFIX}${randomUUID()}`)
+      try {
+        if (isStorageFile(body)) {
+          await copyVerified(body, upload)
+        } else {
+          await writeFile(upload, new Uint8Array(await body.arrayBuffer()))
+        }
+
+        if (upsert) {
+          await rename(upload, destination)
+        } else {
+          // Linking fails if the file exists, without a window for another upload to slip in
+          await link(upload, destination).catch((error: NodeJS.ErrnoException) => {
+            throw error.code === "EEXIST" ? new Error(`Failed to upload ${path}: The resource already exists`) : error
+          })
+        }
+      } finally {
+        await rm(upload, { force: true })
+      }
+    },
+
+    async getStream(path) {
+      const location = requireLocalPath(path)
+      const { size } = await stat(location).catch(() => {
+        throw new Error(`Failed to download ${path}: Object not found`)
+      })
+      return {
+        body: Readable.toWeb(createReadStream(location)) as ReadableStream<Uint8Array>,
+        size,
+        contentType: getLocalContentType(path),
+      }
+    },
+
+    async delete(paths) {
+      for (const path of paths) {
+        await rm(requireLocalPath(path), { force: true })
+      }
+    },
+
+    getPublicUrl: (path) => `${LOCAL_FILES_ROUTE}/${encodeStoragePath(path)}`,
+
+    async createSignedUrls(paths, expiresInSeconds) {
+      const { signingSecret } = config
+      if (!signingSecret) return new Map()
+
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      return new Map(
+        paths.map((path) => [
+          path,
+          `${LOCAL_FILES_ROUTE}/${encodeStoragePath(path)}?expires=${expires}&signature=${signPath(signingSecret, path, expires)}`,
+        ])
+      )
+    },
+
+    async list() {
+      const objects: StorageObjectInfo[] = []
+      const entries = await readdir(root, { recursive: true, withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+        // Nothing was stored yet
+        if (error.code === "ENOENT") return []
+        throw error
+      })
+
+      for (const entry of entries) {
+        if (!entry.isFile() || entry.name.startsWith(UPLOAD_PREFIX)) continue
+        const location = join(entry.parentPath, entry.name)
+        const { size, mtime } = await stat(location)
+        objects.push({ path: relative(root, location).split(sep).join("/"), size, created_at: mtime.toISOString() })
+      }
+
+      return objects
+    },
+  }
+}
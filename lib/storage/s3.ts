@@ -0,0 +1,284 @@
+import { createHash, createHmac } from "crypto"
+import { getS3StorageConfig, type S3StorageConfig } from "./config"
+import { TRANSFER_CONFIG, isStorageFile, readSmallBody, uploadInChunks } from "./shared"
+import type { StorageDriver, StorageFile, StorageObjectInfo } from "./types"
+
+// S3 accepts up to 1000 keys per delete and per list request
+const DELETE_BATCH_SIZE = 1000
+const LIST_PAGE_SIZE = 1000
+
+// Presigned URLs cannot outlive a week
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD"
+
+const sha256Hex = (data: string | Uint8Array) => createHash("sha256").update(data).digest("hex")
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest()
+
+// SigV4 wants RFC 3986 encoding, which also escapes !'()*
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/")
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+
+// Contents of every <tag> element; decode only leaf values
+const xmlValues = (xml: string, tag: string, decode = true) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g")), (match) => (decode ? decodeXml(match[1]) : match[1]))
+
+interface S3Request {
+  method: string
+  key?: string
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  payloadHash?: string
+}
+
+/**
+ * AWS Signature Version 4 for path-style requests to the bucket, as headers or
+ * as a presigned URL
+ */
+const createSigner = (config: S3StorageConfig) => {
+  const signingKeys = new Map<string, Buffer>()
+  const getSigningKey = (dateStamp: string) => {
+    let key = signingKeys.get(dateStamp)
+    if (!key) {
+      key = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"), "aws4_request")
+      signingKeys.set(dateStamp, key)
+    }
+    return key
+  }
+
+  const sign = ({ method, key = "", query = {}, headers = {}, payloadHash = UNSIGNED_PAYLOAD }: S3Request, presignSeconds?: number) => {
+    const url = new URL(`${config.endpoint}/${config.bucket}${key ? `/${encodeKey(key)}` : ""}`)
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "")
+    const dateStamp = amzDate.slice(0, 8)
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+
+    const signedHeaders: Record<string, string> = { host: url.host }
+    for (const [name, value] of Object.entries(headers)) signedHeaders[name.toLowerCase()] = value.trim()
+    if (presignSeconds === undefined) {
+      signedHeaders["x-amz-date"] = amzDate
+      signedHeaders["x-amz-content-sha256"] = payloadHash
+    }
+    const headerNames = Object.keys(signedHeaders).sort()
+
+    const signedQuery: Record<string, string> = { ...query }
+    if (presignSeconds !== undefined) {
+      Object.assign(signedQuery, {
+        "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+        "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+        "X-Amz-Date": amzDate,
+        "X-Amz-Expires": String(presignSeconds),
+        "X-Amz-SignedHeaders": headerNames.join(";"),
+      })
+    }
+    const canonicalQuery = Object.keys(signedQuery)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(signedQuery[name])}`)
+      .join("&")
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      headerNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(""),
+      headerNames.join(";"),
+      payloadHash,
+    ].join("\n")
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+    const signature = createHmac("sha256", getSigningKey(dateStamp)).update(stringToSign).digest("hex")
+
+    if (presignSeconds !== undefined) {
+      return { url: `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`, headers: {} }
+    }
+
+    // fetch sets the host header itself
+    const requestHeaders = Object.fromEntries(Object.entries(signedHeaders).filter(([name]) => name !== "host"))
+    return {
+      url: canonicalQuery ? `${url.origin}${url.pathname}?${canonicalQuery}` : `${url.origin}${url.pathname}`,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+      },
+    }
+  }
+
+  return { sign }
+}
+
+/**
+ * Throw with the message of an S3 error response
+ */
+const throwS3Error = async (response: Response, action: string): Promise<never> => {
+  const body = await response.text().catch(() => "")
+  const message = xmlValues(body, "Message")[0] || xmlValues(body, "Code")[0] || response.statusText
+  throw new Error(`Failed to ${action}: ${message} (${response.status})`)
+}
+
+/**
+ * S3-compatible storage driver (AWS S3, MinIO, Cloudflare R2...). Requests
+ * are signed with SigV4; large files use multipart uploads.
+ */
+export const createS3StorageDriver = (): StorageDriver => {
+  const config = getS3StorageConfig()
+  const { sign } = createSigner(config)
+
+  const send = async (request: S3Request & { body?: Uint8Array<ArrayBuffer> | string }, timeoutMs = 30000) => {
+    const signed = sign(request)
+    return fetch(signed.url, {
+      method: request.method,
+      headers: signed.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+  }
+
+  const uploadMultipart = async (key: string, file: StorageFile, contentType: string) => {
+    const createResponse = await send({ method: "POST", key, query: { uploads: "" }, headers: { "content-type": contentType } })
+    if (!createResponse.ok) await throwS3Error(createResponse, "start multipart upload")
+    const uploadId = xmlValues(await createResponse.text(), "UploadId")[0]
+    if (!uploadId) throw new Error("Failed to start multipart upload: No upload ID")
+
+    const etags = new Map<number, string>()
+    try {
+      await uploadInChunks(
+        file,
+        async (chunk, offset) => {
+          // S3 checks each part against its signed SHA-256
+          const partNumber = offset / TRANSFER_CONFIG.chunkBytes + 1
+          const response = await send(
+            { method: "PUT", key, query: { partNumber: String(partNumber), uploadId }, payloadHash: sha256Hex(chunk), body: chunk },
+            TRANSFER_CONFIG.chunkTimeoutMs
+          )
+          if (!response.ok) await throwS3Error(response, `upload part ${partNumber}`)
+          etags.set(partNumber, response.headers.get("etag") ?? "")
+          return offset + chunk.length
+        },
+        // Parts are independent: a failed part is sent again as a whole
+        async (failedOffset) => failedOffset
+      )
+
+      const completion = `<CompleteMultipartUpload>${Array.from(etags.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([partNumber, etag]) => `<Part><PartNumber>${partNumber}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`)
+        .join("")}</CompleteMultipartUpload>`
+      const completeResponse = await send(
+        { method: "POST", key, query: { uploadId }, payloadHash: sha256Hex(completion), body: completion },
+        TRANSFER_CONFIG.chunkTimeoutMs
+      )
+      // Completion can fail after a 200 status, with an error in the body
+      const completeBody = await completeResponse.text()
+      if (!completeResponse.ok || completeBody.includes("<Error>")) {
+        throw new Error(`Failed to complete multipart upload: ${xmlValues(completeBody, "Message")[0] || completeResponse.statusText}`)
+      }
+    } catch (error) {
+      // Drop the uploaded parts
+      await send({ method: "DELETE", key, query: { uploadId } }).catch(() => undefined)
+      throw error
+    }
+  }
+
+  return {
+    name: "s3",
+
+    async put(key, body, { contentType, upsert = false }) {
+      if (isStorageFile(body) && body.size > TRANSFER_CONFIG.chunkBytes) {
+        await uploadMultipart(key, body, contentType)
+        return
+      }
+
+      const data = await readSmallBody(body)
+      const response = await send({
+        method: "PUT",
+        key,
+        // Signing the SHA-256 makes S3 reject a body that changed on the way
+        payloadHash: isStorageFile(body) ? body.sha256 : sha256Hex(data),
+        headers: { "content-type": contentType, "cache-control": "max-age=3600", ...(upsert ? {} : { "if-none-match": "*" }) },
+        body: data,
+      })
+      if (!response.ok) await throwS3Error(response, `upload ${key}`)
+    },
+
+    async getStream(key) {
+      const signed = sign({ method: "GET", key })
+      const response = await fetch(signed.url, { headers: signed.headers })
+      if (!response.ok || !response.body) await throwS3Error(response, `download ${key}`)
+      const size = Number(response.headers.get("content-length"))
+      return {
+        body: response.body as ReadableStream<Uint8Array>,
+        size: Number.isFinite(size) && size > 0 ? size : null,
+        contentType: response.headers.get("content-type"),
+      }
+    },
+
+    async delete(keys) {
+      for (let index = 0; index < keys.length; index += DELETE_BATCH_SIZE) {
+        const request = `<Delete><Quiet>true</Quiet>${keys
+          .slice(index, index + DELETE_BATCH_SIZE)
+          .map((key) => `<Object><Key>${escapeXml(key)}</Key></Object>`)
+          .join("")}</Delete>`
+        const response = await send({
+          method: "POST",
+          query: { delete: "" },
+          headers: { "content-md5": createHash("md5").update(request).digest("base64") },
+          payloadHash: sha256Hex(request),
+          body: request,
+        })
+        const responseBody = await response.text()
+        // Quiet mode only lists the keys that could not be deleted
+        if (!response.ok || responseBody.includes("<Error>")) {
+          throw new Error(`Failed to delete files: ${xmlValues(responseBody, "Message")[0] || response.statusText}`)
+        }
+      }
+    },
+
+    getPublicUrl: (key) => `${config.publicUrl}/${encodeKey(key)}`,
+
+    async createSignedUrls(keys, expiresInSeconds) {
+      const expires = Math.min(expiresInSeconds, MAX_PRESIGN_SECONDS)
+      return new Map(keys.map((key) => [key, sign({ method: "GET", key }, expires).url]))
+    },
+
+    async list() {
+      const objects: StorageObjectInfo[] = []
+      let continuationToken: string | undefined
+
+      do {
+        const response = await send({
+          method: "GET",
+          query: {
+            "list-type": "2",
+            "max-keys": String(LIST_PAGE_SIZE),
+            ...(continuationToken ? { "continuation-token": continuationToken } : {}),
+          },
+        })
+        if (!response.ok) await throwS3Error(response, "list files")
+        const xml = await response.text()
+
+        for (const entry of xmlValues(xml, "Contents", false)) {
+          const path = xmlValues(entry, "Key")[0]
+          const size = Number(xmlValues(entry, "Size")[0])
+          if (!path || path.endsWith("/")) continue
+          objects.push({ path, size: Number.isFinite(size) ? size : null, created_at: xmlValues(entry, "LastModified")[0] ?? null })
+        }
+
+        continuationToken = xml.includes("<IsTruncated>true</IsTruncated>")
+          ? xmlValues(xml, "NextContinuationToken")[0]
+          : undefined
+      } while (continuationToken)
+
+      return objects
+    },
+  }
+}
@@ -0,0 +1,101 @@
+import { createHash } from "crypto"
+import { open } from "fs/promises"
+import type { StorageBody, StorageFile } from "./types"
+
+/**
+ * Helpers shared by the storage drivers
+ */
+
+// Video files are streamed from disk, never held in memory
+export const TRANSFER_CONFIG = {
+  maxBytes: 500_000_000, // The bucket's file size limit (000_complete_setup.sql)
+  chunkBytes: 6 * 1024 * 1024, // Larger files are uploaded in chunks of this size
+  chunkRetries: 3,
+  chunkTimeoutMs: 120000,
+}
+
+export const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`
+
+export const isStorageFile = (body: StorageBody): body is StorageFile => !(body instanceof Blob)
+
+// Encode each segment of a path for use in a URL, keeping the slashes
+export const encodeStoragePath = (path: string) =>
+  path.split("/").map((segment) => encodeURIComponent(segment)).join("/")
+
+/**
+ * Read a file chunk by chunk, checking as the last byte is read that the file
+ * still hashes to the checksum taken while downloading it
+ */
+export const createChecksumReader = async (file: StorageFile) => {
+  const handle = await open(file.filePath, "r")
+  const hash = createHash("sha256")
+  let hashedBytes = 0
+
+  return {
+    async read(offset: number, length: number) {
+      const chunk = new Uint8Array(length)
+      const { bytesRead } = await handle.read(chunk, 0, length, offset)
+      if (bytesRead !== length) throw new Error(`Downloaded video file is shorter than ${file.size} bytes`)
+
+      // Chunks sent again after a failure were already hashed
+      if (offset + length > hashedBytes) {
+        hash.update(chunk.subarray(hashedBytes - offset))
+        hashedBytes = offset + length
+        if (hashedBytes === file.size && hash.digest("hex") !== file.sha256) {
+          throw new Error("Checksum mismatch: the video file changed after it was downloaded")
+        }
+      }
+      return chunk
+    },
+    close: () => handle.close(),
+  }
+}
+
+/**
+ * Read a body that fits in a single request into memory, checking the
+ * checksum of files
+ */
+export const readSmallBody = async (body: StorageBody): Promise<Uint8Array<ArrayBuffer>> => {
+  if (!isStorageFile(body)) return new Uint8Array(await body.arrayBuffer())
+
+  const reader = await createChecksumReader(body)
+  try {
+    return await reader.read(0, body.size)
+  } finally {
+    await reader.close()
+  }
+}
+
+/**
+ * Run an upload chunk by chunk, retrying a failed chunk from the offset the
+ * storage service last confirmed
+ * @param sendChunk - Sends the chunk at an offset, returns the confirmed offset after it
+ * @param getConfirmedOffset - Asks the storage service where to resume after a failure
+ */
+export const uploadInChunks = async (
+  file: StorageFile,
+  sendChunk: (chunk: Uint8Array<ArrayBuffer>, offset: number) => Promise<number>,
+  getConfirmedOffset: (failedOffset: number) => Promise<number>
+) => {
+  const { chunkBytes, chunkRetries } = TRANSFER_CONFIG
+  const reader = await createChecksumReader(file)
+  let offset = 0
+  let failures = 0
+
+  try {
+    while (offset < file.size) {
+      const chunk = await reader.read(offset, Math.min(chunkBytes, file.size - offset))
+      try {
+        offset = await sendChunk(chunk, offset)
+        failures = 0
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        if (++failures > chunkRetries) throw new Error(`Failed to upload video: ${message}`)
+        console.warn(`[STORAGE] ⚠️ Chunk at ${formatMegabytes(offset)} failed (attempt ${failures}/${chunkRetries}), resuming:`, message)
+        offset = await getConfirmedOffset(offset)
+      }
+    }
+  } finally {
+    await reader.close()
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Common interface of the storage drivers that keep videos, thumbnails and
+ * input references. Paths are relative to the bucket (or directory), e.g.
+ * videos/{job id}-{timestamp}.mp4.
+ */
+
+// A file on disk to store, with the size and SHA-256 it must be stored with
+export interface StorageFile {
+  filePath: string
+  size: number
+  sha256: string
+}
+
+// Small files (thumbnails, input references) are passed in memory, videos as files
+export type StorageBody = Blob | StorageFile
+
+export interface PutObjectOptions {
+  contentType: string
+  upsert?: boolean // Replace an existing file instead of failing
+}
+
+export interface StorageObjectInfo {
+  path: string
+  size: number | null
+  created_at: string | null
+}
+
+export interface StorageObjectStream {
+  body: ReadableStream<Uint8Array>
+  size: number | null
+  contentType: string | null
+}
+
+export interface StorageDriver {
+  name: string
+  put: (path: string, body: StorageBody, options: PutObjectOptions) => Promise<void>
+  getStream: (path: string) => Promise<StorageObjectStream>
+  delete: (paths: string[]) => Promise<void>
+  getPublicUrl: (path: string) => string
+  // Signed URL by path; paths that could not be signed are left out
+  createSignedUrls: (paths: string[], expiresInSeconds: number) => Promise<Map<string, string>>
+  list: () => Promise<StorageObjectInfo[]>
+}
+
+export type StorageDriverFactory = () => StorageDriver
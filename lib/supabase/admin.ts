@@ -0,0 +1,34 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Key used for server-side storage and database work: the service role key,
+ * or the anon key when it is not configured
+ */
+export const getAdminApiKey = () =>
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * Supabase client for server-side work that runs outside of a request
+ * (background job worker, storage pipeline). It does not read cookies, so it
+ * uses the service role key when available and falls back to the anon key.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    getAdminApiKey(),
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: {
+        fetch: (url, options = {}) => {
+          return fetch(url, {
+            ...options,
+            signal: AbortSignal.timeout(30000), // 30 second timeout
+          })
+        },
+      },
+    }
+  )
+}
@@ -0,0 +1,56 @@
+import { createServerClient } from "@supabase/ssr"
+import { NextResponse, type NextRequest } from "next/server"
+
+/**
+ * API routes that do their own authorization and must stay reachable
+ * without a user session
+ */
+export const PUBLIC_API_PATHS = [
+  "/api/mock-sora", // Called server-side by the mock provider adapter
+  "/api/jobs/run", // Protected by CRON_SECRET
+  "/api/storage/orphans", // Protected by CRON_SECRET
+  "/api/storage/files", // Local storage files; a private directory checks their signature
+  "/api/share", // Public share links, checked against their token and password
+]
+
+const isPublicApiPath = (pathname: string) =>
+  PUBLIC_API_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+
+/**
+ * Refresh the Supabase session cookies and reject unauthenticated API
+ * requests when authentication is enabled
+ */
+export async function updateSession(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  // Without authentication there is no session to refresh or enforce
+  if (process.env.NEXT_PUBLIC_AUTH_ENABLED !== 'true') return response
+
+  const supabase = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll()
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+        response = NextResponse.next({ request })
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+      },
+    },
+  })
+
+  // Do not run code between createServerClient and getUser: getUser
+  // validates the session and triggers the cookie refresh above
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { pathname } = request.nextUrl
+  if (!user && pathname.startsWith("/api/") && !isPublicApiPath(pathname)) {
+    console.log(`[MIDDLEWARE] 🔒 Rejected unauthenticated request: ${request.method} ${pathname}`)
+    return NextResponse.json(
+      { error: "Authentication required", code: "unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  return response
+}
@@ -0,0 +1,56 @@
+import { EventEmitter } from "events"
+
+/**
+ * In-process bus for video status changes. The job worker publishes an event
+ * every time it polls a job; the SSE stream (/api/videos/stream) forwards
+ * them to subscribed clients. Workers running in another process (cron mode)
+ * are picked up by the stream's periodic database refresh instead.
+ */
+
+export type VideoEventType = "progress" | "completed" | "failed" | "cancelled"
+
+export interface VideoEvent {
+  type: VideoEventType
+  recordId: string
+  status: "in_progress" | "completed" | "failed" | "cancelled"
+  progress: number | null
+  providerStatus: string | null
+  videoUrl: string | null
+  // When a signed videoUrl stops working (private bucket)
+  videoUrlExpiresAt: string | null
+  thumbnailUrl?: string | null
+  previewUrl?: string | null
+  errorMessage: string | null
+  updatedAt: string
+}
+
+type VideoEventListener = (event: VideoEvent) => void
+
+// Share one emitter between the worker (instrumentation) and route handlers,
+// which Next.js may load as separate module instances
+const eventState = globalThis as typeof globalThis & { __videoEvents?: EventEmitter }
+
+const getEmitter = () => {
+  if (!eventState.__videoEvents) {
+    eventState.__videoEvents = new EventEmitter()
+    // One listener per open stream
+    eventState.__videoEvents.setMaxListeners(0)
+  }
+  return eventState.__videoEvents
+}
+
+export const publishVideoEvent = (event: VideoEvent) => {
+  getEmitter().emit("video", event)
+}
+
+/**
+ * Subscribe to video events
+ * @returns A function that removes the listener
+ */
+export const subscribeToVideoEvents = (listener: VideoEventListener) => {
+  const emitter = getEmitter()
+  emitter.on("video", listener)
+  return () => {
+    emitter.off("video", listener)
+  }
+}
@@ -0,0 +1,125 @@
+import { open } from "fs/promises"
+import {
+  downloadToTempFile,
+  removeDownloadedFile,
+  uploadThumbnailToStorage,
+  uploadVideoToStorage,
+  type StorageFile,
+  type StoredObject,
+} from "@/lib/storage-utils"
+import { extractVideoThumbnails } from "@/lib/video-thumbnails"
+import { readMp4Metadata, type VideoMediaMetadata } from "@/lib/mp4-metadata"
+import type { ProviderJob, VideoProvider } from "@/lib/providers"
+
+// A stored video with its probed metadata and the thumbnails that could be extracted from it
+export interface StoredVideoFiles extends StoredObject {
+  metadata: VideoMediaMetadata | null
+  thumbnail: StoredObject | null
+  preview: StoredObject | null
+}
+
+/**
+ * Columns of a videos row describing its stored files
+ */
+export const toVideoFileColumns = (stored: StoredVideoFiles) => ({
+  video_url: stored.url,
+  storage_path: stored.path,
+  thumbnail_url: stored.thumbnail?.url ?? null,
+  thumbnail_path: stored.thumbnail?.path ?? null,
+  preview_url: stored.preview?.url ?? null,
+  preview_path: stored.preview?.path ?? null,
+  media_metadata: stored.metadata,
+})
+
+// Movie boxes hold sample tables only; anything larger is not worth reading
+const MAX_MOOV_BYTES = 64 * 1024 * 1024
+
+/**
+ * Probe a downloaded MP4, reading only its moov box rather than the whole file
+ */
+const readMp4MetadataFromFile = async (file: StorageFile): Promise<VideoMediaMetadata | null> => {
+  const handle = await open(file.filePath, "r")
+  try {
+    const header = new Uint8Array(16)
+    const view = new DataView(header.buffer)
+    let offset = 0
+    while (offset + 8 <= file.size) {
+      const { bytesRead } = await handle.read(header, 0, header.length, offset)
+      let size = view.getUint32(0)
+      if (size === 1 && bytesRead === header.length) {
+        size = Number(view.getBigUint64(8))
+      } else if (size === 0) {
+        // Box runs to the end of the file
+        size = file.size - offset
+      }
+      if (size < 8 || offset + size > file.size) return null
+
+      if (String.fromCharCode(...header.subarray(4, 8)) === "moov") {
+        if (size > MAX_MOOV_BYTES) return null
+        const moov = new Uint8Array(size)
+        await handle.read(moov, 0, size, offset)
+        return readMp4Metadata(moov, file.size)
+      }
+      offset += size
+    }
+    return null
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Download a completed job (one of its variants) from the provider and upload it to storage
+ * along with its poster frame and animated preview. The download is streamed to a temporary file,
+ * so the video is never held in memory.
+ * @returns The storage paths and (public bucket) URLs of the stored files
+ */
+export const downloadAndStoreVideo = async (
+  provider: VideoProvider,
+  job: ProviderJob,
+  logPrefix = "DOWNLOAD",
+  variantIndex = 0
+): Promise<StoredVideoFiles> => {
+  console.log(`[${logPrefix}] 📥 Starting video download for job: ${job.id} (variant ${variantIndex})`)
+
+  const content = await provider.downloadContent(job, variantIndex)
+  const file = await downloadToTempFile(content.body, content.contentLength)
+  console.log(`[${logPrefix}] 📊 Video downloaded: ${(file.size / 1024 / 1024).toFixed(2)} MB (sha256 ${file.sha256})`)
+
+  try {
+    const metadata = await readMp4MetadataFromFile(file)
+    if (metadata) {
+      console.log(`[${logPrefix}] 🔎 Video metadata:`, metadata)
+    } else {
+      console.warn(`[${logPrefix}] ⚠️ Could not read MP4 metadata of job: ${job.id}`)
+    }
+
+    console.log(`[${logPrefix}] 📤 Uploading video to storage...`)
+    const stored = await uploadVideoToStorage(file, variantIndex > 0 ? `${job.id}-${variantIndex}` : job.id)
+    console.log(`[${logPrefix}] ✅ Video uploaded successfully:`, stored.path)
+
+    // Thumbnails are optional; the video is stored either way
+    const { poster, preview } = await extractVideoThumbnails(file.filePath, logPrefix).catch((error) => {
+      console.warn(`[${logPrefix}] ⚠️ Failed to extract thumbnails:`, error instanceof Error ? error.message : error)
+      return { poster: null, preview: null }
+    })
+    const storeThumbnail = async (image: Blob | null, kind: "poster" | "preview") => {
+      if (!image) return null
+      try {
+        return await uploadThumbnailToStorage(image, stored.path, kind)
+      } catch (error) {
+        console.warn(`[${logPrefix}] ⚠️ Failed to store ${kind}:`, error instanceof Error ? error.message : error)
+        return null
+      }
+    }
+
+    return {
+      ...stored,
+      metadata,
+      thumbnail: await storeThumbnail(poster, "poster"),
+      preview: await storeThumbnail(preview, "preview"),
+    }
+  } finally {
+    await removeDownloadedFile(file)
+  }
+}
@@ -0,0 +1,234 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { getRequestUserId, withDatabaseRetry } from "@/lib/database-utils"
+import { getShareStatus, type VideoShare } from "@/lib/shares"
+import { withPlaybackUrl } from "@/lib/storage-utils"
+
+/**
+ * Share links backed by the video_shares table (see scripts/012_video_shares.sql).
+ * Owners manage their links in their own requests; the public share page
+ * resolves tokens with the service client and only ever reads the shared video.
+ */
+
+const SERVICE = { useServiceRole: true }
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>
+
+const SHARE_COLUMNS = "id, video_id, token, password_hash, expires_at, revoked_at, view_count, last_viewed_at, created_at"
+
+// Only what a visitor of the share page gets to see
+const SHARED_VIDEO_COLUMNS = "id, prompt, video_url, storage_path, thumbnail_url, thumbnail_path, status, model, seconds, size, created_at"
+
+type VideoShareRow = Omit<VideoShare, "has_password"> & { password_hash: string | null }
+
+export interface SharedVideo {
+  id: string
+  prompt: string
+  video_url: string
+  storage_path: string | null
+  thumbnail_url: string | null
+  thumbnail_path: string | null
+  status: string
+  model: string | null
+  seconds: string | null
+  size: string | null
+  created_at: string
+}
+
+const toVideoShare = ({ password_hash, ...share }: VideoShareRow): VideoShare => ({
+  ...share,
+  has_password: !!password_hash,
+})
+
+export const hashSharePassword = async (password: string) => {
+  const salt = randomBytes(16).toString("hex")
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt:${salt}:${hash.toString("hex")}`
+}
+
+export const verifySharePassword = async (password: string, passwordHash: string) => {
+  const [, salt, expected] = passwordHash.split(":")
+  if (!salt || !expected) return false
+  const hash = await scryptAsync(password, salt, 64)
+  const expectedHash = Buffer.from(expected, "hex")
+  return expectedHash.length === hash.length && timingSafeEqual(hash, expectedHash)
+}
+
+// Password attempts allowed per share link and per client address, each
+// within a window; they bound both guessing and the CPU spent on scrypt
+export const SHARE_UNLOCK_LIMITS = {
+  windowMs: 15 * 60 * 1000,
+  maxAttemptsPerShare: 10,
+  maxAttemptsPerClient: 30,
+  maxTrackedKeys: 10_000,
+}
+
+type AttemptWindow = { count: number; resetAt: number }
+
+// Kept on globalThis so every route module (and dev hot reloads) share the counters.
+// Counters are per server process.
+const unlockState = globalThis as typeof globalThis & { __shareUnlockAttempts?: Map<string, AttemptWindow> }
+const unlockAttempts = unlockState.__shareUnlockAttempts ?? (unlockState.__shareUnlockAttempts = new Map<string, AttemptWindow>())
+
+/**
+ * Count a password attempt against its share link and client, before the
+ * password is checked
+ * @returns null when the attempt may go ahead, otherwise the seconds until it may be retried
+ */
+export const takeShareUnlockAttempt = (shareId: string, clientAddress: string, now = Date.now()): number | null => {
+  if (unlockAttempts.size > SHARE_UNLOCK_LIMITS.maxTrackedKeys) {
+    for (const [key, window] of unlockAttempts) {
+      if (window.resetAt <= now) unlockAttempts.delete(key)
+    }
+  }
+
+  const windows = [
+    { key: `share:${shareId}`, limit: SHARE_UNLOCK_LIMITS.maxAttemptsPerShare },
+    { key: `client:${clientAddress}`, limit: SHARE_UNLOCK_LIMITS.maxAttemptsPerClient },
+  ].map(({ key, limit }) => {
+    const current = unlockAttempts.get(key)
+    const window = current && current.resetAt > now ? current : { count: 0, resetAt: now + SHARE_UNLOCK_LIMITS.windowMs }
+    return { key, limit, window }
+  })
+
+  const blocked = windows.filter(({ limit, window }) => window.count >= limit)
+  if (blocked.length > 0) {
+    return Math.ceil((Math.max(...blocked.map(({ window }) => window.resetAt)) - now) / 1000)
+  }
+
+  for (const { key, window } of windows) {
+    unlockAttempts.set(key, { ...window, count: window.count + 1 })
+  }
+  return null
+}
+
+/**
+ * Cookie that proves the visitor entered the password of a share. Keyed by the
+ * password hash, so changing or removing the password invalidates it.
+ */
+export const getShareAccessCookie = (share: { token: string; password_hash: string }) => ({
+  name: `share_access_${share.token}`,
+  value: createHmac("sha256", share.password_hash).update(share.token).digest("hex"),
+})
+
+export const hasShareAccess = (share: { token: string; password_hash: string | null }, cookieValue: string | undefined) => {
+  if (!share.password_hash) return true
+  if (!cookieValue) return false
+  const expected = Buffer.from(getShareAccessCookie({ token: share.token, password_hash: share.password_hash }).value)
+  const actual = Buffer.from(cookieValue)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Create a share link for one of the signed-in user's videos
+ * @returns null when the video does not exist
+ */
+export async function createVideoShare(videoId: string, options: { expiresInHours: number | null; password?: string }) {
+  const passwordHash = options.password ? await hashSharePassword(options.password) : null
+
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let videoQuery = supabase
+      .from("videos")
+      .select("id")
+      .eq("id", videoId)
+
+    videoQuery = userId ? videoQuery.eq("user_id", userId) : videoQuery.is("user_id", null)
+
+    const { data: video, error: videoError } = await videoQuery.maybeSingle()
+    if (videoError) throw videoError
+    if (!video) return null
+
+    const { data, error } = await supabase
+      .from("video_shares")
+      .insert({
+        user_id: userId,
+        video_id: videoId,
+        token: randomBytes(24).toString("base64url"),
+        password_hash: passwordHash,
+        expires_at: options.expiresInHours
+          ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000).toISOString()
+          : null,
+      })
+      .select(SHARE_COLUMNS)
+      .single()
+
+    if (error) throw error
+    return toVideoShare(data as VideoShareRow)
+  })
+}
+
+/**
+ * Fetch the share links of one of the signed-in user's videos, newest first
+ */
+export async function fetchVideoShares(videoId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_shares")
+      .select(SHARE_COLUMNS)
+      .eq("video_id", videoId)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.order("created_at", { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as VideoShareRow[]).map(toVideoShare)
+  })
+}
+
+/**
+ * Revoke one of the signed-in user's share links
+ * @returns false when the link does not exist or was already revoked
+ */
+export async function revokeVideoShare(videoId: string, shareId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const userId = await getRequestUserId(supabase)
+    let query = supabase
+      .from("video_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", shareId)
+      .eq("video_id", videoId)
+      .is("revoked_at", null)
+
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+    const { data, error } = await query.select("id")
+    if (error) throw error
+    return !!data && data.length > 0
+  })
+}
+
+/**
+ * Resolve a share token for the public share page
+ * @returns null when the link does not exist, expired or was revoked
+ */
+export async function resolveVideoShare(token: string) {
+  const resolved = await withDatabaseRetry(async (supabase) => {
+    const { data, error } = await supabase
+      .from("video_shares")
+      .select(`${SHARE_COLUMNS}, video:videos(${SHARED_VIDEO_COLUMNS})`)
+      .eq("token", token)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    const { video, ...share } = data as unknown as VideoShareRow & { video: SharedVideo | null }
+    if (!video || getShareStatus(share) !== "active") return null
+    return { share, video }
+  }, SERVICE)
+
+  return resolved && { ...resolved, video: await withPlaybackUrl(resolved.video) }
+}
+
+/**
+ * Count a view of a share page
+ */
+export async function recordVideoShareView(shareId: string) {
+  return withDatabaseRetry(async (supabase) => {
+    const { error } = await supabase.rpc("record_video_share_view", { share_id: shareId })
+    if (error) throw error
+  }, SERVICE)
+}
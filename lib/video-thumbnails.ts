@@ -0,0 +1,152 @@
+import { spawn } from "child_process"
+import { mkdtemp, readFile, rm } from "fs/promises"
+import { tmpdir } from "os"
+import path from "path"
+
+/**
+ * Poster frames, animated previews and last frames extracted from videos with
+ * ffmpeg (FFMPEG_PATH, or ffmpeg on the PATH). Thumbnails are optional: without
+ * ffmpeg, or when extraction fails, videos are stored without them.
+ */
+
+export const THUMBNAIL_CONFIG = {
+  posterWidth: 640,
+  posterAtSeconds: 1, // Skips fade-ins; videos shorter than this use their first frame
+  previewWidth: 320,
+  previewFps: 8,
+  previewSeconds: 3,
+  timeoutMs: 60000,
+}
+
+export interface VideoThumbnails {
+  poster: Blob | null
+  preview: Blob | null
+}
+
+const runFfmpeg = (args: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    const child = spawn(process.env.FFMPEG_PATH || "ffmpeg", ["-hide_banner", "-loglevel", "error", "-y", ...args], {
+      stdio: ["ignore", "ignore", "pipe"],
+    })
+
+    let stderr = ""
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk
+    })
+
+    const timer = setTimeout(() => child.kill("SIGKILL"), THUMBNAIL_CONFIG.timeoutMs)
+    child.on("error", (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on("close", (code, signal) => {
+      clearTimeout(timer)
+      if (code === 0) resolve()
+      else reject(new Error(`ffmpeg ${signal ? `was stopped (${signal})` : `exited with code ${code}`}: ${stderr.trim()}`))
+    })
+  })
+
+/**
+ * Whether an ffmpeg error means ffmpeg is not installed
+ */
+export const isFfmpegMissing = (error: unknown) => {
+  const { code, syscall } = error as NodeJS.ErrnoException
+  return code === "ENOENT" && !!syscall?.startsWith("spawn")
+}
+
+const readOutput = async (file: string, type: string) => {
+  const data = await readFile(file)
+  // ffmpeg succeeds without output when the seek is past the end
+  if (data.length === 0) throw new Error("ffmpeg produced an empty file")
+  return new Blob([new Uint8Array(data)], { type })
+}
+
+const extractPoster = async (input: string, output: string) => {
+  const extractAt = async (seconds: number) => {
+    await runFfmpeg([
+      "-ss", String(seconds),
+      "-i", input,
+      "-frames:v", "1",
+      "-vf", `scale=${THUMBNAIL_CONFIG.posterWidth}:-2`,
+      "-q:v", "3",
+      output,
+    ])
+    return readOutput(output, "image/jpeg")
+  }
+
+  try {
+    return await extractAt(THUMBNAIL_CONFIG.posterAtSeconds)
+  } catch {
+    return extractAt(0)
+  }
+}
+
+const extractPreview = async (input: string, output: string) => {
+  await runFfmpeg([
+    "-t", String(THUMBNAIL_CONFIG.previewSeconds),
+    "-i", input,
+    "-vf", `fps=${THUMBNAIL_CONFIG.previewFps},scale=${THUMBNAIL_CONFIG.previewWidth}:-2:flags=lanczos`,
+    "-an",
+    "-c:v", "libwebp",
+    "-quality", "60",
+    "-loop", "0",
+    output,
+  ])
+  return readOutput(output, "image/webp")
+}
+
+/**
+ * Extract the poster frame and animated preview of an MP4 file; either is null
+ * when it could not be extracted
+ */
+export const extractVideoThumbnails = async (input: string, logPrefix = "THUMBNAILS"): Promise<VideoThumbnails> => {
+  const workDir = await mkdtemp(path.join(tmpdir(), "video-thumbnails-"))
+
+  const attempt = async (kind: string, extract: () => Promise<Blob>) => {
+    try {
+      return await extract()
+    } catch (error) {
+      console.warn(
+        `[${logPrefix}] ⚠️ Could not extract ${kind}:`,
+        isFfmpegMissing(error) ? "ffmpeg is not installed (set FFMPEG_PATH)" : error instanceof Error ? error.message : error
+      )
+      return null
+    }
+  }
+
+  try {
+    const poster = await attempt("poster frame", () => extractPoster(input, path.join(workDir, "poster.jpg")))
+    // Without a poster ffmpeg is missing or cannot read the video
+    const preview = poster && await attempt("animated preview", () => extractPreview(input, path.join(workDir, "preview.webp")))
+    return { poster, preview }
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+// Seeking this far before the end leaves enough frames to find the last one
+const LAST_FRAME_SEEK_SECONDS = 2
+
+/**
+ * Extract the last frame of an MP4 file as a PNG, to continue the video from it
+ * @param size - Output size; the frame is scaled and cropped to fill it
+ * @throws when ffmpeg is missing or cannot read the video (see isFfmpegMissing)
+ */
+export const extractLastFrame = async (input: string, size: { width: number; height: number } | null): Promise<Blob> => {
+  const workDir = await mkdtemp(path.join(tmpdir(), "video-last-frame-"))
+  const output = path.join(workDir, "last-frame.png")
+  const scale = size
+    ? [
+        "-vf",
+        `scale=${size.width}:${size.height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${size.width}:${size.height},setsar=1`,
+      ]
+    : []
+
+  try {
+    // Every decoded frame overwrites the output, so the last one remains
+    await runFfmpeg(["-sseof", `-${LAST_FRAME_SEEK_SECONDS}`, "-i", input, ...scale, "-update", "1", output])
+    return await readOutput(output, "image/png")
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,13 @@
+import type { NextRequest } from "next/server"
+import { updateSession } from "@/lib/supabase/middleware"
+
+export async function middleware(request: NextRequest) {
+  return updateSession(request)
+}
+
+export const config = {
+  matcher: [
+    // Everything except static assets and image optimization
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
+  ],
+}
@@ -0,0 +1,95 @@
+-- ============================================================================
+-- DURABLE VIDEO JOB QUEUE
+-- ============================================================================
+-- Persistent queue for background video processing. API routes enqueue a job
+-- after submitting a generation to the provider; the job worker claims pending
+-- jobs, polls the provider, downloads the result and uploads it to storage.
+-- Jobs survive process restarts: stale locks are reclaimed automatically, and
+-- videos left in progress without a job are enqueued when the worker starts.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 000_complete_setup.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.video_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_record_id uuid NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_job_id text NOT NULL,
+  job_type text NOT NULL DEFAULT 'generate' CHECK (job_type IN ('generate', 'remix')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 150,
+  run_after timestamp with time zone DEFAULT now() NOT NULL,
+  locked_at timestamp with time zone,
+  locked_by text,
+  last_error text,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE public.video_jobs IS 'Durable queue of background video processing jobs';
+COMMENT ON COLUMN public.video_jobs.video_record_id IS 'Video record updated when the job finishes';
+COMMENT ON COLUMN public.video_jobs.provider IS 'Provider the job was submitted to (openai, azure, mock)';
+COMMENT ON COLUMN public.video_jobs.provider_job_id IS 'Job ID returned by the provider';
+COMMENT ON COLUMN public.video_jobs.status IS 'Queue status (pending, processing, completed, failed)';
+COMMENT ON COLUMN public.video_jobs.attempts IS 'Number of provider status checks performed';
+COMMENT ON COLUMN public.video_jobs.run_after IS 'Earliest time the job may be claimed again';
+COMMENT ON COLUMN public.video_jobs.locked_at IS 'When a worker claimed the job';
+COMMENT ON COLUMN public.video_jobs.locked_by IS 'Worker ID (hostname:pid) holding the job';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_jobs_pending ON public.video_jobs(run_after)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_video_jobs_processing ON public.video_jobs(locked_at)
+WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_video_jobs_video_record_id ON public.video_jobs(video_record_id);
+
+-- ============================================================================
+-- PART 3: CREATE FUNCTIONS AND TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_video_jobs_updated_at ON public.video_jobs;
+CREATE TRIGGER update_video_jobs_updated_at
+    BEFORE UPDATE ON public.video_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Atomically claim due jobs (and jobs whose worker died) for one worker
+DROP FUNCTION IF EXISTS claim_video_jobs(TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION claim_video_jobs(
+    worker_id TEXT,
+    batch_size INTEGER DEFAULT 5,
+    lock_timeout_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.video_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.video_jobs
+    SET status = 'processing',
+        locked_at = now(),
+        locked_by = worker_id
+    WHERE id IN (
+        SELECT j.id FROM public.video_jobs j
+        WHERE (j.status = 'pending' AND j.run_after <= now())
+           OR (j.status = 'processing' AND j.locked_at < now() - make_interval(secs => lock_timeout_seconds))
+        ORDER BY j.run_after
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION claim_video_jobs(TEXT, INTEGER, INTEGER) IS 'Claims due video jobs for a worker, reclaiming jobs with stale locks';
@@ -0,0 +1,89 @@
+-- ============================================================================
+-- PER-USER VIDEO OWNERSHIP WITH ROW LEVEL SECURITY
+-- ============================================================================
+-- Adds an owner to every video and scopes all access to it:
+-- 1. user_id column (defaults to the signed-in user)
+-- 2. Row level security on videos, scoped to auth.uid()
+-- 3. Row level security on video_jobs (service role only)
+--
+-- Deployments running with NEXT_PUBLIC_AUTH_ENABLED=false use the anon role,
+-- which only sees videos without an owner (user_id IS NULL).
+--
+-- ⚠️  The background job worker updates videos of every user, so
+-- SUPABASE_SERVICE_ROLE_KEY must be set once this script has been applied.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 001_video_jobs.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD OWNER COLUMN
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+COMMENT ON COLUMN public.videos.user_id IS 'Owner of the video (NULL when authentication is disabled)';
+
+CREATE INDEX IF NOT EXISTS idx_videos_user_id_created_at ON public.videos(user_id, created_at DESC);
+
+-- Existing videos have no owner. To hand them to a user, run for example:
+-- UPDATE public.videos SET user_id = (SELECT id FROM auth.users WHERE email = 'you@example.com') WHERE user_id IS NULL;
+
+-- ============================================================================
+-- PART 2: ROW LEVEL SECURITY ON VIDEOS
+-- ============================================================================
+
+ALTER TABLE public.videos ENABLE ROW LEVEL SECURITY;
+
+-- Remove the permissive policies suggested by 000_complete_setup.sql
+DROP POLICY IF EXISTS "Users can view all videos" ON public.videos;
+DROP POLICY IF EXISTS "Authenticated users can insert videos" ON public.videos;
+DROP POLICY IF EXISTS "Authenticated users can update videos" ON public.videos;
+DROP POLICY IF EXISTS "Authenticated users can delete videos" ON public.videos;
+
+DROP POLICY IF EXISTS "Users can view their own videos" ON public.videos;
+CREATE POLICY "Users can view their own videos"
+ON public.videos
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert their own videos" ON public.videos;
+CREATE POLICY "Users can insert their own videos"
+ON public.videos
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own videos" ON public.videos;
+CREATE POLICY "Users can update their own videos"
+ON public.videos
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own videos" ON public.videos;
+CREATE POLICY "Users can delete their own videos"
+ON public.videos
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Authentication disabled: the anon role manages videos without an owner
+DROP POLICY IF EXISTS "Anonymous access to unowned videos" ON public.videos;
+CREATE POLICY "Anonymous access to unowned videos"
+ON public.videos
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
+
+-- ============================================================================
+-- PART 3: ROW LEVEL SECURITY ON VIDEO JOBS
+-- ============================================================================
+
+-- No policies: only the service role (job worker) can read or write jobs
+ALTER TABLE public.video_jobs ENABLE ROW LEVEL SECURITY;
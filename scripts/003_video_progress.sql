@@ -0,0 +1,32 @@
+-- ============================================================================
+-- PERSISTED GENERATION PROGRESS
+-- ============================================================================
+-- Stores the latest provider progress on each video so clients can follow
+-- generations (SSE stream, progress endpoint) without querying the provider.
+-- The job worker updates these columns every time it polls a job.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 002_video_ownership.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS progress integer CHECK (progress IS NULL OR (progress >= 0 AND progress <= 100));
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS provider_status text;
+
+COMMENT ON COLUMN public.videos.progress IS 'Latest generation progress reported by the provider (0-100)';
+COMMENT ON COLUMN public.videos.provider_status IS 'Latest raw job status reported by the provider';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- The progress stream looks up each user's in-progress videos
+CREATE INDEX IF NOT EXISTS idx_videos_user_id_in_progress ON public.videos(user_id)
+WHERE status = 'in_progress';
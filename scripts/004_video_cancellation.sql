@@ -0,0 +1,29 @@
+-- ============================================================================
+-- CANCELLABLE GENERATIONS
+-- ============================================================================
+-- Adds the 'cancelled' status to videos and video jobs. Cancelling a video
+-- cancels its unfinished jobs so the worker stops polling the provider.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 003_video_progress.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: UPDATE CONSTRAINTS
+-- ============================================================================
+
+-- Restrict video statuses to the known values (previously only non-empty)
+ALTER TABLE public.videos DROP CONSTRAINT IF EXISTS videos_status_check;
+ALTER TABLE public.videos
+ADD CONSTRAINT videos_status_check
+CHECK (status IN ('in_progress', 'completed', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN public.videos.status IS 'Current status of video generation (in_progress, completed, failed, cancelled)';
+
+ALTER TABLE public.video_jobs DROP CONSTRAINT IF EXISTS video_jobs_status_check;
+ALTER TABLE public.video_jobs
+ADD CONSTRAINT video_jobs_status_check
+CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN public.video_jobs.status IS 'Queue status (pending, processing, completed, failed, cancelled)';
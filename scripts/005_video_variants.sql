@@ -0,0 +1,46 @@
+-- ============================================================================
+-- MULTIPLE VARIANTS PER PROMPT
+-- ============================================================================
+-- A generation request can produce 1-4 variants. Each variant is stored as
+-- its own video, linked to the others by variant_group_id:
+-- - Providers with native variants (Azure n_variants) return one job for all
+--   variants, so the variants share video_id and differ by variant_index
+-- - Other providers get one job per variant (distinct video_id values)
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 004_video_cancellation.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS variant_group_id uuid;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS variant_index integer NOT NULL DEFAULT 0 CHECK (variant_index >= 0);
+
+COMMENT ON COLUMN public.videos.variant_group_id IS 'Shared by all variants generated from one request (NULL for single videos)';
+COMMENT ON COLUMN public.videos.variant_index IS 'Position of the variant in its group (0 for single videos)';
+
+-- ============================================================================
+-- PART 2: UPDATE CONSTRAINTS
+-- ============================================================================
+
+-- Variants of one provider job share its ID
+ALTER TABLE public.videos DROP CONSTRAINT IF EXISTS videos_video_id_key;
+ALTER TABLE public.videos DROP CONSTRAINT IF EXISTS videos_video_id_variant_index_key;
+ALTER TABLE public.videos
+ADD CONSTRAINT videos_video_id_variant_index_key UNIQUE (video_id, variant_index);
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_videos_variant_group_id ON public.videos(variant_group_id)
+WHERE variant_group_id IS NOT NULL;
+
+-- Jobs are looked up by provider job (shared by all its variants)
+CREATE INDEX IF NOT EXISTS idx_video_jobs_provider_job_id ON public.video_jobs(provider_job_id);
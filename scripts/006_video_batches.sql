@@ -0,0 +1,195 @@
+-- ============================================================================
+-- BATCH GENERATION
+-- ============================================================================
+-- A batch is a list of prompts (uploaded as CSV or JSON) generated with a
+-- concurrency cap. The job worker submits queued items while the batch has
+-- free slots; every submitted item becomes a regular video + video job.
+--
+-- Item status: queued -> submitting -> submitted (or failed when the provider
+-- rejects it). The result of a submitted item is the status of its video.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 005_video_variants.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.video_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  max_concurrency integer NOT NULL DEFAULT 3 CHECK (max_concurrency BETWEEN 1 AND 10),
+  total_items integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.video_batch_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.video_batches(id) ON DELETE CASCADE,
+  item_index integer NOT NULL,
+  prompt text NOT NULL,
+  model text NOT NULL,
+  seconds text NOT NULL,
+  size text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'submitting', 'submitted', 'failed', 'cancelled')),
+  video_record_id uuid REFERENCES public.videos(id) ON DELETE SET NULL,
+  error_message text,
+  locked_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (batch_id, item_index)
+);
+
+COMMENT ON TABLE public.video_batches IS 'Batches of prompts generated with a concurrency cap';
+COMMENT ON COLUMN public.video_batches.max_concurrency IS 'Maximum number of items generating at the same time';
+COMMENT ON TABLE public.video_batch_items IS 'One prompt of a batch and the video it produced';
+COMMENT ON COLUMN public.video_batch_items.item_index IS 'Row of the item in the uploaded file (0-based)';
+COMMENT ON COLUMN public.video_batch_items.status IS 'Submission status (queued, submitting, submitted, failed, cancelled)';
+COMMENT ON COLUMN public.video_batch_items.video_record_id IS 'Video created when the item was submitted';
+COMMENT ON COLUMN public.video_batch_items.locked_at IS 'When a worker started submitting the item';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_batches_user_id_created_at ON public.video_batches(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_batches_running ON public.video_batches(created_at)
+WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_video_batch_items_batch_id_status ON public.video_batch_items(batch_id, status);
+
+-- ============================================================================
+-- PART 3: CREATE FUNCTIONS AND TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_video_batches_updated_at ON public.video_batches;
+CREATE TRIGGER update_video_batches_updated_at
+    BEFORE UPDATE ON public.video_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_video_batch_items_updated_at ON public.video_batch_items;
+CREATE TRIGGER update_video_batch_items_updated_at
+    BEFORE UPDATE ON public.video_batch_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Atomically claim queued items of running batches, within each batch's free slots
+DROP FUNCTION IF EXISTS claim_video_batch_items(INTEGER, INTEGER);
+
+CREATE FUNCTION claim_video_batch_items(
+    batch_size INTEGER DEFAULT 10,
+    lock_timeout_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.video_batch_items AS $$
+BEGIN
+    -- Items whose worker died while submitting go back to the queue
+    UPDATE public.video_batch_items
+    SET status = 'queued', locked_at = NULL
+    WHERE status = 'submitting'
+      AND locked_at < now() - make_interval(secs => lock_timeout_seconds);
+
+    RETURN QUERY
+    WITH running AS (
+        -- Lock the batches so concurrent workers cannot exceed their caps
+        SELECT b.id, b.max_concurrency
+        FROM public.video_batches b
+        WHERE b.status = 'running'
+        FOR UPDATE SKIP LOCKED
+    ),
+    slots AS (
+        SELECT r.id AS batch_id,
+               r.max_concurrency - (
+                   SELECT COUNT(*)
+                   FROM public.video_batch_items i
+                   LEFT JOIN public.videos v ON v.id = i.video_record_id
+                   WHERE i.batch_id = r.id
+                     AND (i.status = 'submitting' OR (i.status = 'submitted' AND v.status = 'in_progress'))
+               ) AS free_slots
+        FROM running r
+    ),
+    due AS (
+        SELECT i.id,
+               s.free_slots,
+               row_number() OVER (PARTITION BY i.batch_id ORDER BY i.item_index) AS position
+        FROM public.video_batch_items i
+        JOIN slots s ON s.batch_id = i.batch_id
+        WHERE i.status = 'queued'
+    )
+    UPDATE public.video_batch_items
+    SET status = 'submitting', locked_at = now()
+    WHERE id IN (
+        SELECT d.id FROM due d
+        WHERE d.position <= d.free_slots
+        ORDER BY d.position
+        LIMIT batch_size
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION claim_video_batch_items(INTEGER, INTEGER) IS 'Claims queued batch items for submission without exceeding each batch''s concurrency cap';
+
+-- Mark running batches as completed once every item has finished
+DROP FUNCTION IF EXISTS complete_video_batches();
+
+CREATE FUNCTION complete_video_batches()
+RETURNS INTEGER AS $$
+DECLARE
+    completed_count INTEGER;
+BEGIN
+    UPDATE public.video_batches b
+    SET status = 'completed'
+    WHERE b.status = 'running'
+      AND NOT EXISTS (
+          SELECT 1
+          FROM public.video_batch_items i
+          LEFT JOIN public.videos v ON v.id = i.video_record_id
+          WHERE i.batch_id = b.id
+            AND (i.status IN ('queued', 'submitting') OR (i.status = 'submitted' AND v.status = 'in_progress'))
+      );
+
+    GET DIAGNOSTICS completed_count = ROW_COUNT;
+    RETURN completed_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION complete_video_batches() IS 'Marks running batches without unfinished items as completed';
+
+-- ============================================================================
+-- PART 4: ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.video_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_batch_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own batches" ON public.video_batches;
+CREATE POLICY "Users can manage their own batches"
+ON public.video_batches
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anonymous access to unowned batches" ON public.video_batches;
+CREATE POLICY "Anonymous access to unowned batches"
+ON public.video_batches
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
+
+-- Items follow the ownership of their batch
+DROP POLICY IF EXISTS "Access to items of accessible batches" ON public.video_batch_items;
+CREATE POLICY "Access to items of accessible batches"
+ON public.video_batch_items
+FOR ALL
+TO authenticated, anon
+USING (EXISTS (SELECT 1 FROM public.video_batches b WHERE b.id = batch_id))
+WITH CHECK (EXISTS (SELECT 1 FROM public.video_batches b WHERE b.id = batch_id));
@@ -0,0 +1,62 @@
+-- ============================================================================
+-- PROMPT TEMPLATES
+-- ============================================================================
+-- Saved prompts with {{variable}} placeholders, e.g.
+--   {{subject}} walking through {{location}} at {{time_of_day}}
+-- Variables are parsed from the body when the template is used, so only the
+-- text is stored.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 006_video_batches.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE public.prompt_templates IS 'Saved prompts with {{variable}} placeholders';
+COMMENT ON COLUMN public.prompt_templates.body IS 'Prompt text; {{name}} marks a variable';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES AND TRIGGERS
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_id_name ON public.prompt_templates(user_id, name);
+
+DROP TRIGGER IF EXISTS update_prompt_templates_updated_at ON public.prompt_templates;
+CREATE TRIGGER update_prompt_templates_updated_at
+    BEFORE UPDATE ON public.prompt_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own templates" ON public.prompt_templates;
+CREATE POLICY "Users can manage their own templates"
+ON public.prompt_templates
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anonymous access to unowned templates" ON public.prompt_templates;
+CREATE POLICY "Anonymous access to unowned templates"
+ON public.prompt_templates
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
@@ -0,0 +1,67 @@
+-- ============================================================================
+-- PARAMETER SWEEP EXPERIMENTS
+-- ============================================================================
+-- A sweep generates one prompt across several models, durations and sizes.
+-- The runs are linked by an experiment so they can be compared side by side:
+-- - video_experiments.runs lists the parameters of every run and its video
+-- - videos.experiment_id points back at the experiment
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 007_prompt_templates.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.video_experiments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  prompt text NOT NULL,
+  runs jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE public.video_experiments IS 'Parameter sweeps of one prompt';
+COMMENT ON COLUMN public.video_experiments.runs IS 'Runs as [{ model, seconds, size, video_record_id, error_message? }]';
+
+-- ============================================================================
+-- PART 2: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS experiment_id uuid REFERENCES public.video_experiments(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.videos.experiment_id IS 'Experiment (parameter sweep) the video was generated for';
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_experiments_user_id_created_at ON public.video_experiments(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_videos_experiment_id ON public.videos(experiment_id)
+WHERE experiment_id IS NOT NULL;
+
+-- ============================================================================
+-- PART 4: ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.video_experiments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own experiments" ON public.video_experiments;
+CREATE POLICY "Users can manage their own experiments"
+ON public.video_experiments
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anonymous access to unowned experiments" ON public.video_experiments;
+CREATE POLICY "Anonymous access to unowned experiments"
+ON public.video_experiments
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- GENERATION PARAMETERS
+-- ============================================================================
+-- Keep the parameters each video was requested with, so a shot can be
+-- reproduced and videos can be filtered by duration or aspect ratio:
+-- - Typed columns for the parameters the UI filters and displays
+-- - request_params with the full request as sent by the app
+-- Videos created before this migration have NULL parameters.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 008_video_experiments.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS seconds text;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS size text;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS provider text;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS has_input_reference boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS request_params jsonb;
+
+COMMENT ON COLUMN public.videos.seconds IS 'Requested duration in seconds';
+COMMENT ON COLUMN public.videos.size IS 'Requested resolution (WIDTHxHEIGHT)';
+COMMENT ON COLUMN public.videos.provider IS 'Provider that generated the video (openai, azure, mock)';
+COMMENT ON COLUMN public.videos.has_input_reference IS 'Whether an input reference guided the generation';
+COMMENT ON COLUMN public.videos.request_params IS 'Full generation request (prompt, model, seconds, size, variants, input reference, remix source)';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_videos_user_id_size ON public.videos(user_id, size);
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- INPUT REFERENCES
+-- ============================================================================
+-- Images and videos uploaded as input_reference are stored under the
+-- references/ prefix of the videos bucket and recorded in video_references,
+-- so a video keeps the file that guided it and references can be re-used.
+-- Identical files uploaded by one user are stored once (content_hash).
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 009_video_generation_params.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.video_references (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  storage_path text NOT NULL UNIQUE,
+  url text NOT NULL,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes bigint NOT NULL,
+  content_hash text NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE public.video_references IS 'Input reference files (images/videos) that guided generations';
+COMMENT ON COLUMN public.video_references.storage_path IS 'Path of the file in the videos bucket (references/...)';
+COMMENT ON COLUMN public.video_references.content_hash IS 'SHA-256 of the file, used to store identical uploads once';
+
+-- ============================================================================
+-- PART 2: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS input_reference_id uuid REFERENCES public.video_references(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.videos.input_reference_id IS 'Input reference the video was generated with';
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_references_user_id_created_at ON public.video_references(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_video_references_user_id_content_hash ON public.video_references(user_id, content_hash);
+
+CREATE INDEX IF NOT EXISTS idx_videos_input_reference_id ON public.videos(input_reference_id)
+WHERE input_reference_id IS NOT NULL;
+
+-- ============================================================================
+-- PART 4: ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.video_references ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own references" ON public.video_references;
+CREATE POLICY "Users can manage their own references"
+ON public.video_references
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anonymous access to unowned references" ON public.video_references;
+CREATE POLICY "Anonymous access to unowned references"
+ON public.video_references
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
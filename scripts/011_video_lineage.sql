@@ -0,0 +1,47 @@
+-- ============================================================================
+-- REMIX LINEAGE
+-- ============================================================================
+-- Record which video a remix was made from (parent_video_id), so the tree of
+-- an original video, its remixes and remixes of remixes can be shown.
+-- Remixes created after 009_video_generation_params.sql are backfilled from
+-- request_params.source_video_id; older remixes stay without a parent.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 010_video_references.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMN
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS parent_video_id uuid REFERENCES public.videos(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.videos.parent_video_id IS 'Video this remix was made from';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_videos_parent_video_id ON public.videos(parent_video_id);
+
+-- ============================================================================
+-- PART 3: BACKFILL EXISTING REMIXES
+-- ============================================================================
+-- The remix source is a provider job ID; variants of one job share it, so the
+-- first variant of the job becomes the parent.
+
+UPDATE public.videos AS remix
+SET parent_video_id = (
+  SELECT source.id
+  FROM public.videos AS source
+  WHERE source.video_id = remix.request_params->>'source_video_id'
+    AND source.user_id IS NOT DISTINCT FROM remix.user_id
+    AND source.id <> remix.id
+  ORDER BY source.variant_index, source.created_at
+  LIMIT 1
+)
+WHERE remix.creation_type = 'remix'
+  AND remix.parent_video_id IS NULL
+  AND remix.request_params ? 'source_video_id';
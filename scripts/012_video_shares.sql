@@ -0,0 +1,86 @@
+-- ============================================================================
+-- SHARE LINKS
+-- ============================================================================
+-- A share gives anyone with its token access to one video through the public
+-- /share/{token} page, optionally behind a password and until it expires or
+-- is revoked. Share pages read through the service role, so visitors never
+-- get access to the owner's library.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 011_video_lineage.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.video_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  video_id uuid NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  password_hash text,
+  expires_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE public.video_shares IS 'Public share links for single videos';
+COMMENT ON COLUMN public.video_shares.token IS 'Random token in the share URL';
+COMMENT ON COLUMN public.video_shares.password_hash IS 'scrypt hash of the optional share password';
+COMMENT ON COLUMN public.video_shares.expires_at IS 'When the link stops working (NULL = never)';
+COMMENT ON COLUMN public.video_shares.revoked_at IS 'When the owner revoked the link';
+COMMENT ON COLUMN public.video_shares.view_count IS 'Number of times the share page was opened';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_shares_video_id ON public.video_shares(video_id);
+
+-- ============================================================================
+-- PART 3: CREATE FUNCTIONS
+-- ============================================================================
+
+-- Count a view without a read-modify-write race between visitors
+DROP FUNCTION IF EXISTS record_video_share_view(UUID);
+
+CREATE FUNCTION record_video_share_view(share_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.video_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = timezone('utc'::text, now())
+    WHERE id = share_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_video_share_view(UUID) IS 'Increments the view count of a share link';
+
+-- Only the server (service role) records views
+REVOKE EXECUTE ON FUNCTION record_video_share_view(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PART 4: ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.video_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own shares" ON public.video_shares;
+CREATE POLICY "Users can manage their own shares"
+ON public.video_shares
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anonymous access to unowned shares" ON public.video_shares;
+CREATE POLICY "Anonymous access to unowned shares"
+ON public.video_shares
+FOR ALL
+TO anon
+USING (user_id IS NULL)
+WITH CHECK (user_id IS NULL);
@@ -0,0 +1,47 @@
+-- ============================================================================
+-- PRIVATE STORAGE
+-- ============================================================================
+-- Store the path of each video in the storage bucket (storage_path), so the
+-- app can mint short-lived signed URLs from it instead of handing out
+-- permanent public URLs. Existing videos get their path from their public
+-- URL.
+--
+-- PART 3 switches the bucket to private. Run it once STORAGE_PRIVATE_BUCKET
+-- is set to "true" (see README); until then the public URLs keep working.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 012_video_shares.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMN
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS storage_path text;
+
+COMMENT ON COLUMN public.videos.storage_path IS 'Path of the video file in the videos storage bucket';
+
+-- ============================================================================
+-- PART 2: CONVERT PUBLIC URLS TO PATHS
+-- ============================================================================
+-- Public URLs look like {project}/storage/v1/object/public/videos/{path};
+-- videos fetched from elsewhere keep their URL and get no path.
+
+UPDATE public.videos
+SET storage_path = substring(video_url from '/storage/v1/object/public/videos/([^?]+)$')
+WHERE storage_path IS NULL
+  AND video_url LIKE '%/storage/v1/object/public/videos/%';
+
+-- ============================================================================
+-- PART 3: MAKE THE BUCKET PRIVATE (optional)
+-- ============================================================================
+-- Uncomment and run to stop serving public URLs. Stored public URLs are
+-- cleared so only signed URLs minted from storage_path are handed out;
+-- input references already have their storage_path (010_video_references.sql).
+
+-- UPDATE storage.buckets SET public = false WHERE id = 'videos';
+-- DROP POLICY IF EXISTS "Public can read videos" ON storage.objects;
+-- UPDATE public.videos SET video_url = '' WHERE storage_path IS NOT NULL;
+-- UPDATE public.video_references SET url = '' WHERE storage_path IS NOT NULL;
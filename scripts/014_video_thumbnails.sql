@@ -0,0 +1,27 @@
+-- ============================================================================
+-- VIDEO THUMBNAILS
+-- ============================================================================
+-- Store a poster frame (JPEG) and a short animated preview (WebP) extracted
+-- from each completed video, next to the video in the videos bucket. Like
+-- video_url, the URL columns are empty with a private bucket and the paths
+-- are used to sign URLs. Older videos stay without thumbnails.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 013_video_storage_paths.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS thumbnail_url text,
+ADD COLUMN IF NOT EXISTS thumbnail_path text,
+ADD COLUMN IF NOT EXISTS preview_url text,
+ADD COLUMN IF NOT EXISTS preview_path text;
+
+COMMENT ON COLUMN public.videos.thumbnail_url IS 'Public URL of the poster frame';
+COMMENT ON COLUMN public.videos.thumbnail_path IS 'Path of the poster frame in the videos storage bucket';
+COMMENT ON COLUMN public.videos.preview_url IS 'Public URL of the animated preview';
+COMMENT ON COLUMN public.videos.preview_path IS 'Path of the animated preview in the videos storage bucket';
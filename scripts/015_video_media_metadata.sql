@@ -0,0 +1,21 @@
+-- ============================================================================
+-- VIDEO MEDIA METADATA
+-- ============================================================================
+-- Record what the provider actually returned, read from the MP4 container
+-- when a video is stored: duration, dimensions, frame rate, codecs, bitrate,
+-- audio track and file size. The app compares it with the requested seconds
+-- and size. Older videos stay without metadata.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 014_video_thumbnails.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMN
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS media_metadata jsonb;
+
+COMMENT ON COLUMN public.videos.media_metadata IS 'Technical metadata of the stored MP4 (duration_seconds, width, height, frame_rate, video_codec, audio_codec, has_audio, bitrate, file_size)';
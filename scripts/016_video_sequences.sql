@@ -0,0 +1,38 @@
+-- ============================================================================
+-- VIDEO SEQUENCES
+-- ============================================================================
+-- Record which clip a video continues when it was generated from the last
+-- frame of another one (previous_video_id), and the sequence the clips form:
+-- sequence_id is the ID of its first clip and sequence_index the position of
+-- a clip in it (0 for the first clip). Takes of one extension share a
+-- position.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 015_video_media_metadata.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS previous_video_id uuid REFERENCES public.videos(id) ON DELETE SET NULL;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS sequence_id uuid;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS sequence_index integer;
+
+COMMENT ON COLUMN public.videos.previous_video_id IS 'Clip this video continues; its last frame was the input reference';
+COMMENT ON COLUMN public.videos.sequence_id IS 'ID of the first clip of the sequence this video belongs to';
+COMMENT ON COLUMN public.videos.sequence_index IS 'Position of the clip in its sequence, starting at 0';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_videos_previous_video_id ON public.videos(previous_video_id);
+CREATE INDEX IF NOT EXISTS idx_videos_sequence ON public.videos(sequence_id, sequence_index)
+WHERE sequence_id IS NOT NULL;
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- KEEP JOBS OF MULTI-VARIANT VIDEOS WHEN A VARIANT IS DELETED
+-- ============================================================================
+-- Providers with native variants return one job for all variants, tracked by
+-- one video_jobs row whose video_record_id points at the first variant. The
+-- row is deleted with that video (ON DELETE CASCADE), which left the other
+-- variants in progress forever. Before a video is deleted, its jobs are now
+-- moved to another video of the same provider job; they are only deleted
+-- with the last one.
+--
+-- 🔄 IDEMPOTENT: Safe to run multiple times
+--
+-- Run this script in your Supabase SQL Editor after 016_video_sequences.sql
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE FUNCTIONS AND TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS repoint_video_jobs_before_delete ON public.videos;
+DROP FUNCTION IF EXISTS repoint_video_jobs();
+
+-- Runs as the owner: video jobs are only visible to the service role
+CREATE FUNCTION repoint_video_jobs()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.video_id IS NOT NULL THEN
+        UPDATE public.video_jobs
+        SET video_record_id = (
+            SELECT v.id
+            FROM public.videos v
+            WHERE v.video_id = OLD.video_id
+              AND v.id <> OLD.id
+            ORDER BY v.variant_index
+            LIMIT 1
+        )
+        WHERE video_record_id = OLD.id
+          AND EXISTS (
+            SELECT 1 FROM public.videos v WHERE v.video_id = OLD.video_id AND v.id <> OLD.id
+          );
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER repoint_video_jobs_before_delete
+    BEFORE DELETE ON public.videos
+    FOR EACH ROW
+    EXECUTE FUNCTION repoint_video_jobs();
+
+COMMENT ON FUNCTION repoint_video_jobs() IS 'Moves the jobs of a deleted video to another variant of the same provider job';
@@ -1,11 +1,56 @@
+import type { VideoRequestParams } from "@/lib/generation-options"
+import type { VideoMediaMetadata } from "@/lib/mp4-metadata"
+
 export interface Video {
   id: string
   prompt: string
   video_url: string
+  // Path in the storage bucket; video_url is signed from it when the bucket is private
+  storage_path?: string | null
+  // When a signed video_url stops working
+  video_url_expires_at?: string
+  // Poster frame and animated preview, when they could be extracted
+  thumbnail_url?: string | null
+  thumbnail_path?: string | null
+  preview_url?: string | null
+  preview_path?: string | null
+  // Read from the stored MP4
+  media_metadata?: VideoMediaMetadata | null
   video_id?: string
   model?: string
-  status?: "in_progress" | "completed" | "failed" 
+  seconds?: string | null
+  size?: string | null
+  provider?: string | null
+  has_input_reference?: boolean
+  input_reference_id?: string | null
+  input_reference?: VideoReference | null
+  request_params?: VideoRequestParams | null
+  status?: "in_progress" | "completed" | "failed" | "cancelled"
   error_message?: string // Added error message field
   created_at: string
+  updated_at?: string
   creation_type?: string
+  progress?: number | null
+  provider_status?: string | null
+  variant_group_id?: string | null
+  variant_index?: number
+  experiment_id?: string | null
+  parent_video_id?: string | null
+  // Sequences: the clip this video continues from its last frame, the first
+  // clip of the sequence and the position in it
+  previous_video_id?: string | null
+  sequence_id?: string | null
+  sequence_index?: number | null
+  user_id?: string | null
+}
+
+// Input reference file stored with the videos it guided
+export interface VideoReference {
+  id: string
+  url: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+  storage_path?: string
+  created_at?: string
 }